@@ -1,25 +1,37 @@
-import React, { useState, useEffect, createContext, useContext, useCallback, FC, PropsWithChildren } from 'react';
+import React, { useState, useEffect, useRef, useMemo, createContext, useContext, useCallback, FC, PropsWithChildren } from 'react';
 import ReactDOM from 'react-dom/client';
 
-const API_BASE_URL = 'http://localhost:8000';
-
 // Type Definitions from OpenAPI Spec
+type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'fee' | 'deposit';
+// `buy_date` is the trade date for every transaction type; the name matches the upload API's column.
+// For dividends, fees and deposits the cash amount is quantity * price; for splits quantity is the ratio.
+// `currency` is the ISO 4217 code `price` is in (USD when missing); `exchange` is where the trade was made.
 type Transaction = {
     ticker: string;
     buy_date: string;
     quantity: number;
     price: number;
+    transaction_type?: TransactionType;
+    lot_id?: string;
+    currency?: string;
+    exchange?: string;
 };
+// Prices and EPS are in `currency` (USD when missing), the currency of the listing on `exchange`.
 type StockData = {
     ticker: string;
     pe_ratio: number;
     eps: number;
     price_history: { date: string; close: number }[];
+    currency?: string;
+    exchange?: string;
 };
+// `ticker`/`tickers` are optional on the wire; the client fills in `tickers` when it attributes a headline.
 type NewsHeadline = {
     source: string;
     title: string;
     link: string;
+    ticker?: string;
+    tickers?: string[];
 };
 type Recommendation = {
     ticker: string;
@@ -27,21 +39,848 @@ type Recommendation = {
     confidence: string;
     reasoning: string;
 };
+type UploadTransactionsResponse = { message?: string; preview: Transaction[] };
+type SentimentScore = 'bullish' | 'neutral' | 'bearish';
+type SentimentRequest = { user_id: string; sentiment: string; score?: SentimentScore; tickers?: string[] };
+type SentimentResponse = { sentiment: string };
+type StockDataResponse = { data: StockData[] };
+type NewsResponse = { headlines: NewsHeadline[] };
+// `rate` is how much of `base` one unit of the currency buys on `date`; the last point is the latest rate.
+type FxRatesResponse = { base: string; rates: Record<string, { date: string; rate: number }[]> };
+type AnalyzeRequest = {
+    user_id: string;
+    sentiment: string;
+    sentiment_history: { date: string; text: string; score: SentimentScore; tickers: string[] }[];
+    transaction_history: (Transaction & { transaction_date: string; transaction_type: TransactionType })[];
+    // Lot costs and EPS are in `currency`, the listing's own currency (USD when missing, as in runs saved before currencies).
+    open_lots: { ticker: string; open_date: string; quantity: number; cost_per_share: number; currency?: string }[];
+    current_metrics: { ticker: string; pe_ratio: number; eps: number; currency?: string }[];
+    news_summaries: { ticker: string; headline: string }[];
+    // Headlines no holding could be matched to, sent as general market news.
+    market_news: string[];
+};
+type AnalyzeResponse = { recommendations: Recommendation[] };
+type AuthUser = { id: string; email: string; name?: string };
+type LoginRequest = { email: string; password: string };
+type SignupRequest = LoginRequest & { name: string };
+type AuthResponse = { access_token: string; refresh_token: string; expires_in: number; user: AuthUser };
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+type ChatContext = {
+    portfolio_name: string;
+    lot_method: LotMethod;
+    // Positions are valued in this currency.
+    base_currency: string;
+    positions: { ticker: string; shares: number; average_cost: number; last_close: number | null; market_value: number | null; weight: number }[];
+    transaction_history: AnalyzeRequest['transaction_history'];
+    sentiment_history: AnalyzeRequest['sentiment_history'];
+    current_metrics: AnalyzeRequest['current_metrics'];
+    news_summaries: AnalyzeRequest['news_summaries'];
+    market_news: AnalyzeRequest['market_news'];
+    // The analysis run the conversation is about, if any.
+    analysis_run: { id: string; created_at: string; recommendations: Recommendation[] } | null;
+};
+type ChatRequest = { user_id: string; portfolio_id: string; messages: ChatMessage[]; context: ChatContext };
+type ChatResponse = { reply: string };
+
+// --- API CLIENT ---
+type AppConfig = {
+    apiBaseUrl: string;
+    mockApi: boolean;
+    timeoutMs: number;
+    maxRetries: number;
+};
+
+declare global {
+    interface Window {
+        // Set by config.js, which is deployed next to index.html and can be edited without a rebuild.
+        ANDRE_CONFIG?: Partial<AppConfig>;
+    }
+}
+
+const DEFAULT_CONFIG: AppConfig = {
+    apiBaseUrl: 'http://localhost:8000',
+    mockApi: false,
+    timeoutMs: 15000,
+    maxRetries: 2,
+};
+
+// Precedence: query string (?api=...&mock=1) > window.ANDRE_CONFIG > defaults.
+const resolveConfig = (): AppConfig => {
+    const config = { ...DEFAULT_CONFIG, ...window.ANDRE_CONFIG };
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('api')) config.apiBaseUrl = params.get('api')!;
+    if (params.has('mock')) config.mockApi = params.get('mock') !== '0';
+    config.apiBaseUrl = config.apiBaseUrl.replace(/\/+$/, '');
+    return config;
+};
+
+const appConfig = resolveConfig();
+
+class ApiError extends Error {
+    status: number | null;
+    kind: 'http' | 'timeout' | 'network';
+
+    constructor(message: string, status: number | null, kind: ApiError['kind']) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.kind = kind;
+    }
+}
+
+// --- AUTH SESSION ---
+// Kept at module level so the API client can attach and refresh tokens outside React; App subscribes to changes.
+type AuthSession = { accessToken: string; refreshToken: string; expiresAt: number; user: AuthUser };
+
+const AUTH_STORAGE_KEY = 'andre.auth';
+// Refresh this long before the access token actually expires, to allow for clock skew and slow requests.
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+const loadAuthSession = (): AuthSession | null => {
+    try {
+        return JSON.parse(localStorage.getItem(AUTH_STORAGE_KEY) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+let authSession = loadAuthSession();
+const authListeners = new Set<(session: AuthSession | null) => void>();
+
+const setAuthSession = (session: AuthSession | null) => {
+    authSession = session;
+    if (session) localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(AUTH_STORAGE_KEY);
+    authListeners.forEach(listener => listener(session));
+};
+
+const subscribeAuth = (listener: (session: AuthSession | null) => void) => {
+    authListeners.add(listener);
+    return () => {
+        authListeners.delete(listener);
+    };
+};
+
+const toAuthSession = (data: AuthResponse): AuthSession => ({
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+    user: data.user,
+});
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Concurrent callers share one refresh. A rejected refresh token ends the session; a network failure keeps it.
+const refreshAuthSession = () => {
+    refreshInFlight ??= (async () => {
+        const session = authSession;
+        if (!session) return false;
+        try {
+            const data = await request<AuthResponse>('/auth/refresh', { method: 'POST', json: { refresh_token: session.refreshToken }, auth: false });
+            setAuthSession(toAuthSession(data));
+            return true;
+        } catch (err) {
+            if (err instanceof ApiError && err.kind === 'http') setAuthSession(null);
+            return false;
+        } finally {
+            refreshInFlight = null;
+        }
+    })();
+    return refreshInFlight;
+};
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(abortError());
+    }, { once: true });
+});
+
+// Exponential backoff with jitter: ~500ms, ~1s, ~2s, ...
+const backoffDelay = (attempt: number) => 500 * 2 ** attempt * (0.75 + Math.random() * 0.5);
+
+const isRetryable = (err: ApiError) => err.kind !== 'http' || err.status === 429 || (err.status !== null && err.status >= 500);
+
+type RequestOptions = {
+    method?: 'GET' | 'POST';
+    json?: unknown;
+    body?: FormData;
+    signal?: AbortSignal;
+    // Defaults to appConfig.maxRetries for GETs and 0 for POSTs, which may not be safe to repeat.
+    retries?: number;
+    // Set to false for the auth endpoints themselves.
+    auth?: boolean;
+    accept?: string;
+    // Reads a successful response instead of response.json(), e.g. to consume a stream.
+    // The timeout stops applying once the response headers have arrived.
+    readBody?: (response: Response) => Promise<unknown>;
+};
+
+const request = async <T,>(path: string, options: RequestOptions = {}): Promise<T> => {
+    const { method = 'GET', json, body, signal } = options;
+    if (appConfig.mockApi) return mockRequest(path, options) as Promise<T>;
+    const retries = options.retries ?? (method === 'GET' ? appConfig.maxRetries : 0);
+    const useAuth = options.auth !== false;
+    let triedRefresh = false;
+
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw abortError();
+        if (useAuth && authSession && authSession.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS) await refreshAuthSession();
+        const session = useAuth ? authSession : null;
+        const headers: Record<string, string> = {};
+        if (json !== undefined) headers['Content-Type'] = 'application/json';
+        if (options.accept) headers.Accept = options.accept;
+        if (session) headers.Authorization = `Bearer ${session.accessToken}`;
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, appConfig.timeoutMs);
+        const cancel = () => controller.abort();
+        signal?.addEventListener('abort', cancel);
+
+        try {
+            const response = await fetch(`${appConfig.apiBaseUrl}${path}`, {
+                method,
+                headers,
+                body: json === undefined ? body : JSON.stringify(json),
+                signal: controller.signal,
+            });
+            if (response.status === 401 && session && !triedRefresh) {
+                triedRefresh = true;
+                // Retry straight away with the new token; this doesn't count against `retries`.
+                if (await refreshAuthSession()) {
+                    attempt--;
+                    continue;
+                }
+                throw new ApiError('Your session has expired. Please log in again.', 401, 'http');
+            }
+            if (response.ok && options.readBody) {
+                clearTimeout(timer);
+                return await options.readBody(response) as T;
+            }
+            const data = await response.json().catch(() => ({}));
+            if (!response.ok) throw new ApiError(data.message || `Server error: ${response.status}`, response.status, 'http');
+            return data as T;
+        } catch (err) {
+            if (signal?.aborted) throw abortError();
+            const error = err instanceof ApiError ? err
+                : timedOut ? new ApiError(`The server did not respond within ${appConfig.timeoutMs / 1000}s.`, null, 'timeout')
+                : new ApiError(`Could not reach the server at ${appConfig.apiBaseUrl}.`, null, 'network');
+            if (attempt >= retries || !isRetryable(error)) throw error;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        }
+        await sleep(backoffDelay(attempt), signal);
+    }
+};
+
+// Yields the lines of a streamed body as they arrive, including a trailing line without a newline.
+async function* streamLines(body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split(/\r?\n/);
+        buffer = done ? '' : lines.pop()!;
+        yield* lines;
+        if (done) return;
+    }
+}
+
+// Yields the events of a server-sent event stream; multi-line data is joined with newlines.
+async function* streamEvents(body: ReadableStream<Uint8Array>) {
+    let event = 'message';
+    let data: string[] = [];
+    for await (const line of streamLines(body)) {
+        if (line === '') {
+            if (data.length > 0) yield { event, data: data.join('\n') };
+            event = 'message';
+            data = [];
+        } else if (!line.startsWith(':')) {
+            const [field, ...rest] = line.split(':');
+            const value = rest.join(':').replace(/^ /, '');
+            if (field === 'event') event = value;
+            if (field === 'data') data.push(value);
+        }
+    }
+    if (data.length > 0) yield { event, data: data.join('\n') };
+}
+
+const parseStreamJson = (response: Response, data: string) => {
+    try {
+        return JSON.parse(data);
+    } catch {
+        throw new ApiError('The server sent a malformed response.', response.status, 'http');
+    }
+};
+
+const streamError = (response: Response, data: string) =>
+    new ApiError(parseStreamJson(response, data).message || 'The server reported an error.', response.status, 'http');
+
+// /analyze may answer with server-sent events ("recommendation", "error" and "done" events),
+// newline-delimited JSON, or a plain AnalyzeResponse. Recommendations are reported as they arrive.
+const readAnalysisStream = async (response: Response, onRecommendation: (rec: Recommendation) => void): Promise<AnalyzeResponse> => {
+    const recommendations: Recommendation[] = [];
+    const push = (rec: Recommendation) => {
+        recommendations.push(rec);
+        onRecommendation(rec);
+    };
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.body || !/event-stream|ndjson/.test(contentType)) {
+        (parseStreamJson(response, await response.text()) as AnalyzeResponse).recommendations.forEach(push);
+    } else if (contentType.includes('event-stream')) {
+        for await (const { event, data } of streamEvents(response.body)) {
+            if (event === 'error') throw streamError(response, data);
+            if (event === 'recommendation' || event === 'message') push(parseStreamJson(response, data));
+        }
+    } else {
+        for await (const line of streamLines(response.body)) {
+            if (line.trim()) push(parseStreamJson(response, line));
+        }
+    }
+    return { recommendations };
+};
+
+// /chat may answer with server-sent events ("token" events carrying { text }, plus "error" and "done"),
+// a chunked text/plain body, or a plain ChatResponse. onText gets the whole reply so far.
+const readChatStream = async (response: Response, onText: (reply: string) => void): Promise<ChatResponse> => {
+    let reply = '';
+    const append = (text: string) => {
+        reply += text;
+        onText(reply);
+    };
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.body || contentType.includes('application/json')) {
+        append((parseStreamJson(response, await response.text()) as ChatResponse).reply ?? '');
+    } else if (contentType.includes('event-stream')) {
+        for await (const { event, data } of streamEvents(response.body)) {
+            if (event === 'error') throw streamError(response, data);
+            if (event === 'token' || event === 'message') append(parseStreamJson(response, data).text ?? '');
+        }
+    } else {
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) append(decoder.decode(chunk.value, { stream: true }));
+    }
+    return { reply };
+};
+
+const tickerQuery = (tickers: string[]) => `tickers=${encodeURIComponent(tickers.join(','))}`;
+
+const api = {
+    login: (payload: LoginRequest, signal?: AbortSignal) =>
+        request<AuthResponse>('/auth/login', { method: 'POST', json: payload, signal, auth: false }),
+    signup: (payload: SignupRequest, signal?: AbortSignal) =>
+        request<AuthResponse>('/auth/signup', { method: 'POST', json: payload, signal, auth: false }),
+    uploadTransactions: (file: File, signal?: AbortSignal) => {
+        const formData = new FormData();
+        formData.append('file', file);
+        return request<UploadTransactionsResponse>('/upload-transactions', { method: 'POST', body: formData, signal });
+    },
+    submitSentiment: (payload: SentimentRequest, signal?: AbortSignal) =>
+        request<SentimentResponse>('/get-sentiment', { method: 'POST', json: payload, signal }),
+    getStockData: (tickers: string[], signal?: AbortSignal) =>
+        request<StockDataResponse>(`/get-stock-data?${tickerQuery(tickers)}`, { signal }),
+    getNews: (tickers: string[], signal?: AbortSignal) =>
+        request<NewsResponse>(`/get-news?${tickerQuery(tickers)}`, { signal }),
+    getFxRates: (base: string, currencies: string[], start: string, signal?: AbortSignal) =>
+        request<FxRatesResponse>(`/get-fx-rates?${new URLSearchParams({ base, currencies: currencies.join(','), start })}`, { signal }),
+    // Analysis only reads the payload, so it is safe to retry like a GET. A retry after a dropped
+    // stream reports the same tickers again, so callers should upsert by ticker.
+    analyze: (payload: AnalyzeRequest, onRecommendation: (rec: Recommendation) => void, signal?: AbortSignal) =>
+        request<AnalyzeResponse>('/analyze', {
+            method: 'POST',
+            json: payload,
+            signal,
+            retries: appConfig.maxRetries,
+            accept: 'text/event-stream, application/x-ndjson, application/json',
+            readBody: response => readAnalysisStream(response, onRecommendation),
+        }),
+    chat: (payload: ChatRequest, onText: (reply: string) => void, signal?: AbortSignal) =>
+        request<ChatResponse>('/chat', {
+            method: 'POST',
+            json: payload,
+            signal,
+            accept: 'text/event-stream, text/plain, application/json',
+            readBody: response => readChatStream(response, onText),
+        }),
+};
+
+// --- MOCK BACKEND ---
+// Serves deterministic fixture data for every endpoint so the UI can be demoed without a backend (?mock=1).
+const MOCK_LATENCY_MS = 400;
+const MOCK_TOKEN_DELAY_MS = 40;
+
+// The last entry repeats the third from another outlet, as real feeds do.
+const MOCK_HEADLINES = [
+    { source: 'Reuters', title: '{ticker} shares rise after quarterly results beat estimates' },
+    { source: 'Bloomberg', title: 'Analysts weigh {ticker} valuation as sector rotation continues' },
+    { source: 'CNBC', title: '{ticker} announces expanded buyback program' },
+    { source: 'MarketWatch', title: 'Why {ticker} could face pressure from rising rates' },
+    { source: 'Yahoo Finance', title: '{ticker} Announces Expanded Buyback Program - Yahoo Finance' },
+];
+
+const hashString = (text: string) => [...text].reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) | 0, 7);
+
+// mulberry32: a tiny seeded PRNG so each ticker always gets the same fake history.
+const seededRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Listings outside the US, by ticker suffix: [currency, exchange].
+const MOCK_LISTINGS: Record<string, [string, string]> = {
+    L: ['GBP', 'LSE'],
+    DE: ['EUR', 'XETRA'],
+    PA: ['EUR', 'Euronext Paris'],
+    AS: ['EUR', 'Euronext Amsterdam'],
+    SW: ['CHF', 'SIX'],
+    TO: ['CAD', 'TSX'],
+    T: ['JPY', 'TSE'],
+    HK: ['HKD', 'HKEX'],
+};
+
+// Roughly how many US dollars one unit of each currency bought recently.
+const MOCK_USD_RATES: Record<string, number> = {
+    USD: 1, EUR: 1.08, GBP: 1.27, JPY: 0.0067, CHF: 1.12, CAD: 0.74, AUD: 0.66, HKD: 0.128,
+    SGD: 0.74, SEK: 0.095, NOK: 0.094, DKK: 0.145, CNY: 0.138, INR: 0.012, KRW: 0.00074, BRL: 0.2, MXN: 0.058, ZAR: 0.054,
+};
+
+const mockStockData = (ticker: string): StockData => {
+    const random = seededRandom(hashString(ticker));
+    const history: StockData['price_history'] = [];
+    let close = 50 + random() * 350;
+    const day = new Date();
+    day.setUTCDate(day.getUTCDate() - 730);
+    for (; day.getTime() <= Date.now(); day.setUTCDate(day.getUTCDate() + 1)) {
+        if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+        close = Math.max(1, close * (1 + (random() - 0.48) * 0.04));
+        history.push({ date: day.toISOString().slice(0, 10), close: Number(close.toFixed(2)) });
+    }
+    const eps = Number((1 + random() * 9).toFixed(2));
+    const listing = MOCK_LISTINGS[ticker.split(/[.-]/)[1]];
+    const stock: StockData = { ticker, pe_ratio: Number((close / eps).toFixed(2)), eps, price_history: history };
+    return listing ? { ...stock, currency: listing[0], exchange: listing[1] } : stock;
+};
+
+// A weekday series from `start` to today that wanders within a few percent of the MOCK_USD_RATES cross rate.
+const mockFxSeries = (currency: string, base: string, start: string) => {
+    const random = seededRandom(hashString(`${currency}/${base}`));
+    const cross = (MOCK_USD_RATES[currency] ?? 1) / (MOCK_USD_RATES[base] ?? 1);
+    const series: FxRatesResponse['rates'][string] = [];
+    let drift = 1;
+    for (const day = new Date(`${start}T00:00:00Z`); day.getTime() <= Date.now(); day.setUTCDate(day.getUTCDate() + 1)) {
+        if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+        drift = Math.min(1.05, Math.max(0.95, drift * (1 + (random() - 0.5) * 0.01)));
+        series.push({ date: day.toISOString().slice(0, 10), rate: Number((cross * drift).toPrecision(6)) });
+    }
+    return series;
+};
+
+const mockRecommendation = (metric: AnalyzeRequest['current_metrics'][number]): Recommendation => {
+    if (metric.pe_ratio > 35) {
+        return { ticker: metric.ticker, recommendation: 'sell', confidence: 'medium', reasoning: `At a P/E of ${metric.pe_ratio}, ${metric.ticker} is priced well above its earnings.` };
+    }
+    if (metric.pe_ratio < 18) {
+        return { ticker: metric.ticker, recommendation: 'buy', confidence: 'medium', reasoning: `A P/E of ${metric.pe_ratio} looks inexpensive against EPS of ${metric.eps}.` };
+    }
+    return { ticker: metric.ticker, recommendation: 'hold', confidence: 'high', reasoning: `${metric.ticker} trades at a reasonable P/E of ${metric.pe_ratio}.` };
+};
+
+// Sends each item as its own server-sent event, spaced out like a model generating them.
+const mockEventStream = (event: string, items: unknown[], signal?: AbortSignal, delayMs = MOCK_LATENCY_MS) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            try {
+                for (const item of items) {
+                    await sleep(delayMs, signal);
+                    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(item)}\n\n`));
+                }
+                controller.enqueue(encoder.encode('event: done\ndata: {}\n\n'));
+                controller.close();
+            } catch (err) {
+                controller.error(err);
+            }
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+// A rule-based stand-in for the chat model: answers "why ...TICKER", "what if I add/sell N TICKER"
+// and general questions from the context the page sent, so the chat works without a model backend.
+const mockChatReply = ({ messages, context }: ChatRequest): string => {
+    const question = messages[messages.length - 1]?.content ?? '';
+    const recommendations = context.analysis_run?.recommendations ?? [];
+    const findPosition = (ticker: string) => context.positions.find(p => p.ticker === ticker);
+    const totalValue = context.positions.reduce((sum, p) => sum + (p.market_value ?? 0), 0);
+
+    const trade = question.match(/\b(add|buy|sell)\s+(\d+(?:\.\d+)?)\s+(?:shares?\s+(?:of\s+)?)?\$?([A-Za-z][A-Za-z0-9.-]*)/i);
+    if (trade) {
+        const [, verb, amount, symbol] = trade;
+        const ticker = normalizeTicker(symbol);
+        const delta = Number(amount) * (verb.toLowerCase() === 'sell' ? -1 : 1);
+        const position = findPosition(ticker);
+        const shares = (position?.shares ?? 0) + delta;
+        if (shares < 0) return `You hold ${position?.shares ?? 0} shares of ${ticker}, so you can't sell ${amount}.`;
+        const price = position?.last_close ?? null;
+        if (price === null) return `I don't have a recent price for ${ticker}. Fetch its market data and ask again, and I can size the trade.`;
+        const weight = shares * price / (totalValue + delta * price);
+        const rec = recommendations.find(r => r.ticker === ticker);
+        return [
+            `${delta > 0 ? 'Buying' : 'Selling'} ${amount} ${ticker} at the last close of ${formatMoney(price, context.base_currency)} would ${delta > 0 ? 'cost' : 'raise'} about ${formatMoney(Math.abs(delta * price), context.base_currency)}.`,
+            `You'd hold ${shares} shares, about ${formatPercent(weight)} of the portfolio${position ? ` (${formatPercent(position.weight)} today)` : ''}.`,
+            rec ? `For reference, the analysis rated ${ticker} ${rec.recommendation} with ${rec.confidence} confidence.` : '',
+        ].filter(Boolean).join(' ');
+    }
+
+    const known = [...new Set([...context.positions.map(p => p.ticker), ...context.current_metrics.map(m => m.ticker), ...recommendations.map(r => r.ticker)])];
+    const ticker = known.find(t => new RegExp(`\\b${escapeRegExp(t)}\\b`).test(question.toUpperCase()));
+    if (ticker) {
+        const rec = recommendations.find(r => r.ticker === ticker);
+        const position = findPosition(ticker);
+        const metric = context.current_metrics.find(m => m.ticker === ticker);
+        const headlines = context.news_summaries.filter(n => n.ticker === ticker);
+        return [
+            rec ? `The analysis rated ${ticker} ${rec.recommendation} with ${rec.confidence} confidence. ${rec.reasoning}` : `There's no recommendation for ${ticker} in this analysis run.`,
+            position ? `You hold ${position.shares} shares at an average cost of ${formatMoney(position.average_cost, context.base_currency)}.` : `You don't currently hold ${ticker}.`,
+            metric ? `It trades at a P/E of ${metric.pe_ratio} on EPS of ${metric.eps}.` : '',
+            headlines.length ? `Recent news includes "${headlines[0].headline}".` : '',
+        ].filter(Boolean).join(' ');
+    }
+
+    const largest = [...context.positions].sort((a, b) => b.weight - a.weight)[0];
+    const latestMood = context.sentiment_history[0];
+    return [
+        context.positions.length
+            ? `${context.portfolio_name} has ${context.positions.length} open positions${totalValue > 0 ? ` worth about ${formatMoney(totalValue, context.base_currency)}` : ''}, the largest being ${largest.ticker}.`
+            : `${context.portfolio_name} has no open positions yet.`,
+        latestMood ? `Your latest journal entry was ${latestMood.score}: "${latestMood.text}".` : '',
+        recommendations.length ? `The analysis covered ${recommendations.map(r => `${r.ticker} (${r.recommendation})`).join(', ')}.` : '',
+        'Ask about a ticker, like "why sell MSFT?", or try "what if I add 10 NVDA?".',
+    ].filter(Boolean).join(' ');
+};
+
+// Streams mockChatReply a word at a time, like a model would.
+const mockChatStream = (payload: ChatRequest, signal?: AbortSignal) =>
+    mockEventStream('token', mockChatReply(payload).split(/(?<=\s)/).map(text => ({ text })), signal, MOCK_TOKEN_DELAY_MS);
+
+// Used when the backend has no /chat endpoint, even outside mock mode.
+const answerLocally = (payload: ChatRequest, onText: (reply: string) => void, signal?: AbortSignal) =>
+    readChatStream(mockChatStream(payload, signal), onText);
+
+const mockRequest = async (path: string, options: RequestOptions): Promise<unknown> => {
+    await sleep(MOCK_LATENCY_MS, options.signal);
+    const [route, query = ''] = path.split('?');
+    const tickers = (new URLSearchParams(query).get('tickers') || '').split(',').filter(Boolean);
+    switch (route) {
+        case '/auth/login':
+        case '/auth/signup': {
+            const { email, password, name } = options.json as SignupRequest;
+            if (!email || password.length < 6) throw new ApiError('Invalid email or password.', 401, 'http');
+            const user = { id: `user-${(hashString(email.toLowerCase()) >>> 0).toString(36)}`, email, name: name || email.split('@')[0] };
+            return { access_token: `mock-access-${createId()}`, refresh_token: `mock-refresh-${createId()}`, expires_in: 3600, user } satisfies AuthResponse;
+        }
+        case '/auth/refresh':
+            if (!authSession) throw new ApiError('Not signed in.', 401, 'http');
+            return { access_token: `mock-access-${createId()}`, refresh_token: `mock-refresh-${createId()}`, expires_in: 3600, user: authSession.user } satisfies AuthResponse;
+        case '/upload-transactions': {
+            const file = options.body?.get('file');
+            const rows = file instanceof File ? parseCsv(await file.text()).length - 1 : 0;
+            return { message: `Received ${rows} transactions (mock).`, preview: [] } satisfies UploadTransactionsResponse;
+        }
+        case '/get-sentiment':
+            return { sentiment: (options.json as SentimentRequest).sentiment } satisfies SentimentResponse;
+        case '/get-stock-data':
+            return { data: tickers.map(mockStockData) } satisfies StockDataResponse;
+        case '/get-fx-rates': {
+            const params = new URLSearchParams(query);
+            const base = params.get('base') || DEFAULT_CURRENCY;
+            const currencies = (params.get('currencies') || '').split(',').filter(Boolean);
+            const start = params.get('start') || new Date().toISOString().slice(0, 10);
+            return { base, rates: Object.fromEntries(currencies.map(c => [c, mockFxSeries(c, base, start)])) } satisfies FxRatesResponse;
+        }
+        case '/get-news':
+            return {
+                headlines: tickers.flatMap(ticker => MOCK_HEADLINES.slice(0, 3 + (Math.abs(hashString(ticker)) % 3)).map(h => ({
+                    source: h.source,
+                    title: h.title.replace('{ticker}', ticker),
+                    link: `https://example.com/news/${ticker.toLowerCase()}-${hashString(h.title) >>> 0}`,
+                }))),
+            } satisfies NewsResponse;
+        case '/analyze': {
+            const recommendations = (options.json as AnalyzeRequest).current_metrics.map(mockRecommendation);
+            return options.readBody ? options.readBody(mockEventStream('recommendation', recommendations, options.signal)) : { recommendations } satisfies AnalyzeResponse;
+        }
+        case '/chat': {
+            const payload = options.json as ChatRequest;
+            return options.readBody ? options.readBody(mockChatStream(payload, options.signal)) : { reply: mockChatReply(payload) } satisfies ChatResponse;
+        }
+        default:
+            throw new ApiError(`Not found: ${route}`, 404, 'http');
+    }
+};
+
+// --- PERSISTENCE ---
+// Session state lives in IndexedDB as one record per named portfolio, so a reload picks up where the user left off.
+const DB_NAME = 'andre';
+// Bump when adding object stores, and create them in openNamedDatabase's upgrade handler and STORE_NAMES.
+const DB_VERSION = 5;
+// Bump when PortfolioData changes shape: keep the old shape as a PortfolioDataV<n> type and add a step to
+// PORTFOLIO_MIGRATIONS and migratePortfolio.
+const PORTFOLIO_SCHEMA_VERSION = 4;
+
+type PortfolioData = {
+    transactions: Transaction[] | null;
+    sentimentJournal: SentimentEntry[];
+    stockData: StockData[] | null;
+    news: NewsHeadline[] | null;
+    analysis: Recommendation[] | null;
+    lotMethod: LotMethod;
+    // Currency that holdings, cost basis and gains are reported in.
+    baseCurrency: string;
+    fetchedAt: FetchTimes;
+};
+// When each kind of backend data last arrived, so a cached copy can say how old it is.
+type FetchTimes = Record<'stockData' | 'news' | 'analysis', string | null>;
+type PortfolioRecord = {
+    id: string;
+    name: string;
+    schemaVersion: number;
+    updatedAt: string;
+    data: PortfolioData;
+};
+// Earlier shapes of PortfolioData, as records saved under each schema version still hold them.
+type PortfolioDataV1 = Omit<PortfolioDataV2, 'sentimentJournal'> & { sentiment: string };
+type PortfolioDataV2 = Omit<PortfolioDataV3, 'baseCurrency'>;
+type PortfolioDataV3 = Omit<PortfolioData, 'fetchedAt'>;
+// A record as read back from storage or an export; `schemaVersion` says which shape `data` has.
+type StoredPortfolioRecord = Omit<PortfolioRecord, 'data'> & { data: PortfolioDataV1 | PortfolioDataV2 | PortfolioDataV3 | PortfolioData };
+type PortfolioSummary = Pick<PortfolioRecord, 'id' | 'name'>;
+// One /analyze call, with the exact payload it was given so later runs can be explained against it.
+type AnalysisRun = {
+    id: string;
+    portfolioId: string;
+    createdAt: string;
+    sentimentWindow: SentimentWindow;
+    input: AnalyzeRequest;
+    recommendations: Recommendation[];
+};
+type ChatEntry = ChatMessage & { id: string; createdAt: string; local?: boolean };
+// A chat thread, scoped to one portfolio and the analysis run it discusses (null before any run).
+type Conversation = {
+    id: string;
+    portfolioId: string;
+    runId: string | null;
+    updatedAt: string;
+    messages: ChatEntry[];
+};
+// Cached exchange rates for one currency pair, keyed `${currency}:${base}`; `start` is the earliest date requested.
+type FxRatesRecord = {
+    id: string;
+    start: string;
+    fetchedOn: string;
+    series: FxRatesResponse['rates'][string];
+};
+// A sentiment submission made while the backend was unreachable; `id` is the journal entry's id.
+type OutboxItem = {
+    id: string;
+    portfolioId: string;
+    createdAt: string;
+    payload: SentimentRequest;
+};
+type StoreName = 'portfolios' | 'settings' | 'analysisRuns' | 'conversations' | 'fxRates' | 'outbox';
+const STORE_NAMES: StoreName[] = ['portfolios', 'settings', 'analysisRuns', 'conversations', 'fxRates', 'outbox'];
+
+const emptyPortfolioData = (): PortfolioData => ({
+    transactions: null,
+    sentimentJournal: [],
+    stockData: null,
+    news: null,
+    analysis: null,
+    lotMethod: 'fifo',
+    baseCurrency: DEFAULT_CURRENCY,
+    fetchedAt: { stockData: null, news: null, analysis: null },
+});
+
+// Each step upgrades a record's data from the schema version it is keyed by to the next one.
+const PORTFOLIO_MIGRATIONS = {
+    // v2: the single sentiment string became a dated journal.
+    1: ({ sentiment, ...data }: PortfolioDataV1): PortfolioDataV2 => ({
+        ...data,
+        sentimentJournal: sentiment ? [{ id: createId(), createdAt: new Date().toISOString(), text: sentiment, score: 'neutral', tickers: [] }] : [],
+    }),
+    // v3: amounts gained a currency; everything before was in US dollars.
+    2: (data: PortfolioDataV2): PortfolioDataV3 => ({ ...data, baseCurrency: DEFAULT_CURRENCY }),
+    // v4: fetch times; data saved before then is at least as old as the record.
+    3: (data: PortfolioDataV3, { updatedAt }: StoredPortfolioRecord): PortfolioData => ({
+        ...data,
+        fetchedAt: {
+            stockData: data.stockData ? updatedAt : null,
+            news: data.news ? updatedAt : null,
+            analysis: data.analysis ? updatedAt : null,
+        },
+    }),
+};
+
+const migratePortfolio = (record: StoredPortfolioRecord): PortfolioRecord => {
+    const { schemaVersion } = record;
+    const v2 = schemaVersion < 2 ? PORTFOLIO_MIGRATIONS[1](record.data as PortfolioDataV1) : record.data as PortfolioDataV2;
+    const v3 = schemaVersion < 3 ? PORTFOLIO_MIGRATIONS[2](v2) : v2 as PortfolioDataV3;
+    const data = schemaVersion < 4 ? PORTFOLIO_MIGRATIONS[3](v3, record) : v3 as PortfolioData;
+    return { ...record, schemaVersion: Math.max(schemaVersion, PORTFOLIO_SCHEMA_VERSION), data: { ...emptyPortfolioData(), ...data } };
+};
+
+const createId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const createPortfolioRecord = (name: string): PortfolioRecord => ({
+    id: createId(),
+    name,
+    schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+    updatedAt: new Date().toISOString(),
+    data: emptyPortfolioData(),
+});
+
+const requestResult = <T,>(req: IDBRequest): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+// Each account gets its own database, so people sharing a browser never see each other's portfolios.
+// Signed out (an upload before logging in, or data saved before accounts existed) uses the bare name.
+const databaseName = (userId: string | null) => (userId ? `${DB_NAME}:${userId}` : DB_NAME);
+
+const openNamedDatabase = (name: string) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(name, DB_VERSION);
+        req.onupgradeneeded = event => {
+            const db = req.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore('portfolios', { keyPath: 'id' });
+                db.createObjectStore('settings');
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore('analysisRuns', { keyPath: 'id' }).createIndex('portfolioId', 'portfolioId');
+            }
+            if (event.oldVersion < 3) {
+                db.createObjectStore('conversations', { keyPath: 'id' }).createIndex('portfolioId', 'portfolioId');
+            }
+            if (event.oldVersion < 4) {
+                db.createObjectStore('fxRates', { keyPath: 'id' });
+            }
+            if (event.oldVersion < 5) {
+                db.createObjectStore('outbox', { keyPath: 'id' }).createIndex('portfolioId', 'portfolioId');
+            }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+let database: { name: string; promise: Promise<IDBDatabase> } | null = null;
+
+// The database of whoever is signed in right now; switching accounts closes the previous one.
+const openDatabase = () => {
+    const name = databaseName(authSession?.user.id ?? null);
+    if (database?.name !== name) {
+        database?.promise.then(db => db.close(), () => {});
+        database = { name, promise: openNamedDatabase(name) };
+    }
+    return database.promise;
+};
+
+const storeRequest = async <T,>(store: StoreName, mode: IDBTransactionMode, call: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDatabase();
+    return requestResult<T>(call(db.transaction(store, mode).objectStore(store)));
+};
+
+// Moves everything saved while signed out into the signed-in user's database while that one is still empty,
+// so the first sign-in in a browser keeps older data and an upload made before logging in.
+const adoptSignedOutData = async () => {
+    if (!authSession) return;
+    const target = await openDatabase();
+    if ((await requestResult<number>(target.transaction('portfolios', 'readonly').objectStore('portfolios').count())) > 0) return;
+    const source = await openNamedDatabase(DB_NAME);
+    try {
+        for (const store of STORE_NAMES) {
+            const read = source.transaction(store, 'readonly').objectStore(store);
+            const [keys, values] = await Promise.all([requestResult<IDBValidKey[]>(read.getAllKeys()), requestResult<unknown[]>(read.getAll())]);
+            if (keys.length === 0) continue;
+            const write = target.transaction(store, 'readwrite').objectStore(store);
+            // Only 'settings' has out-of-line keys.
+            await Promise.all(values.map((value, i) => requestResult(write.put(value, write.keyPath === null ? keys[i] : undefined))));
+            await requestResult(source.transaction(store, 'readwrite').objectStore(store).clear());
+        }
+    } finally {
+        source.close();
+    }
+};
+
+const storage = {
+    get: <T,>(store: StoreName, key: string) => storeRequest<T | undefined>(store, 'readonly', s => s.get(key)),
+    getAll: <T,>(store: StoreName) => storeRequest<T[]>(store, 'readonly', s => s.getAll()),
+    getAllByIndex: <T,>(store: StoreName, index: string, key: string) => storeRequest<T[]>(store, 'readonly', s => s.index(index).getAll(key)),
+    // Stores with a keyPath (all but 'settings') take the key from the value; 'settings' needs an explicit key.
+    put: (store: StoreName, value: unknown, key?: string) => storeRequest<void>(store, 'readwrite', s => s.put(value, key)),
+    delete: (store: StoreName, key: string) => storeRequest<void>(store, 'readwrite', s => s.delete(key)),
+    // Reads and removes a record in one transaction, so of two callers (or tabs) racing for it only one gets it.
+    take: <T,>(store: StoreName, key: string) => storeRequest<T | undefined>(store, 'readwrite', s => {
+        const req = s.get(key);
+        req.addEventListener('success', () => {
+            if (req.result !== undefined) s.delete(key);
+        });
+        return req;
+    }),
+};
 
 // --- CONTEXT for State Management ---
 interface AppContextType {
     navigate: (page: string) => void;
+    user: AuthUser | null;
+    login: (payload: LoginRequest) => Promise<void>;
+    signup: (payload: SignupRequest) => Promise<void>;
     logout: () => void;
+    portfolios: PortfolioSummary[];
+    activePortfolioId: string | null;
+    switchPortfolio: (id: string) => Promise<void>;
+    createPortfolio: (name: string) => Promise<void>;
+    renamePortfolio: (id: string, name: string) => Promise<void>;
+    deletePortfolio: (id: string) => Promise<void>;
+    clearPortfolio: () => void;
+    importSession: (dump: SessionExport) => Promise<void>;
     transactions: Transaction[] | null;
     setTransactions: (transactions: Transaction[] | null) => void;
-    sentiment: string;
-    setSentiment: (sentiment: string) => void;
+    sentimentJournal: SentimentEntry[];
+    setSentimentJournal: (journal: SentimentEntry[]) => void;
     stockData: StockData[] | null;
     setStockData: (data: StockData[] | null) => void;
     news: NewsHeadline[] | null;
     setNews: (news: NewsHeadline[] | null) => void;
     analysis: Recommendation[] | null;
     setAnalysis: (analysis: Recommendation[] | null) => void;
+    lotMethod: LotMethod;
+    setLotMethod: (method: LotMethod) => void;
+    baseCurrency: string;
+    setBaseCurrency: (currency: string) => void;
+    // When the stock data, news and analysis currently shown were fetched.
+    fetchedAt: FetchTimes;
+    // Rates for converting into `fx.base`, which trails baseCurrency while new rates load.
+    fx: FxTable;
+    fxError: string;
 }
 const AppContext = createContext<AppContextType | null>(null);
 const useAppContext = () => {
@@ -50,331 +889,4316 @@ const useAppContext = () => {
     return context;
 };
 
-// --- HELPER & UI COMPONENTS ---
-const Spinner: FC = () => (
-    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
-);
+// Protected pages only render for a signed-in user, so this only throws if used on a public page.
+const useCurrentUser = () => {
+    const { user } = useAppContext();
+    if (!user) throw new Error("useCurrentUser must be used on a page that requires login");
+    return user;
+};
 
-const Card: FC<PropsWithChildren<{ className?: string }>> = ({ children, className = '' }) => (
-    <div className={`bg-gray-800 shadow-lg rounded-xl p-6 ${className}`}>
-        {children}
-    </div>
-);
+// Returns a signal that aborts when the calling page unmounts, cancelling its in-flight requests.
+const usePageSignal = () => {
+    const controllerRef = useRef(new AbortController());
+    useEffect(() => {
+        controllerRef.current = new AbortController();
+        return () => controllerRef.current.abort();
+    }, []);
+    return useCallback(() => controllerRef.current.signal, []);
+};
 
-// --- PAGE COMPONENTS ---
-const UploadPage: FC = () => {
-    const { setTransactions, navigate } = useAppContext();
-    const [file, setFile] = useState<File | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState('');
+// navigator.onLine, kept current; true only means a network is up, not that the backend is reachable.
+const useOnlineStatus = () => {
+    const [isOnline, setIsOnline] = useState(navigator.onLine);
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+    return isOnline;
+};
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files) {
-            setFile(e.target.files[0]);
-            setError('');
-        }
-    };
+// The active portfolio's transactions and prices restated in its base currency; see toBaseCurrency.
+const useBaseCurrencyData = () => {
+    const { transactions, stockData, fx } = useAppContext();
+    return useMemo(() => toBaseCurrency(transactions, stockData, fx), [transactions, stockData, fx]);
+};
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!file) {
-            setError('Please select a CSV file to upload.');
-            return;
-        }
-        setIsLoading(true);
-        setError('');
-        const formData = new FormData();
-        formData.append('file', file);
+// Every mounted useStoredSetting for a key, so an update in one component reaches the others.
+const settingListeners = new Map<string, Set<(value: unknown) => void>>();
 
-        try {
-            const response = await fetch(`${API_BASE_URL}/upload-transactions`, {
-                method: 'POST',
-                body: formData,
-            });
-            const data = await response.json();
-            if (!response.ok) {
-                throw new Error(data.message || `Server error: ${response.status}`);
+// Loads a value from the 'settings' store whenever the key changes and writes every update back to it.
+const useStoredSetting = <T,>(key: string, initial: T) => {
+    const [value, setValue] = useState<T>(initial);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const initialRef = useRef(initial);
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoaded(false);
+        storage.get<T>('settings', key)
+            .then(saved => { if (!cancelled) setValue(saved === undefined ? initialRef.current : saved); })
+            .catch(err => console.error(`Failed to load setting "${key}"`, err))
+            .finally(() => { if (!cancelled) setIsLoaded(true); });
+        const listeners = settingListeners.get(key) ?? new Set();
+        const listener = (next: unknown) => setValue(next as T);
+        settingListeners.set(key, listeners.add(listener));
+        return () => {
+            cancelled = true;
+            listeners.delete(listener);
+        };
+    }, [key]);
+    const update = useCallback((next: T) => {
+        settingListeners.get(key)?.forEach(listener => listener(next));
+        storage.put('settings', next, key).catch(err => console.error(`Failed to save setting "${key}"`, err));
+    }, [key]);
+    return [value, update, isLoaded] as const;
+};
+
+// --- CSV IMPORT HELPERS ---
+type TransactionField = keyof Transaction;
+type ColumnMapping = Record<TransactionField, string>;
+type ImportPreset = { id: string; name: string; mapping: Partial<ColumnMapping> };
+type ImportRow = { id: number; line: number; values: Record<TransactionField, string> };
+type RowErrors = Partial<Record<TransactionField, string>>;
+
+const TRANSACTION_FIELDS: { field: TransactionField; label: string; optional?: boolean }[] = [
+    { field: 'transaction_type', label: 'Type', optional: true },
+    { field: 'ticker', label: 'Ticker' },
+    { field: 'buy_date', label: 'Date' },
+    { field: 'quantity', label: 'Quantity' },
+    { field: 'price', label: 'Price' },
+    { field: 'lot_id', label: 'Lot ID', optional: true },
+    { field: 'currency', label: 'Currency', optional: true },
+    { field: 'exchange', label: 'Exchange', optional: true },
+];
+
+// Header names as they appear in each broker's transaction history export.
+const BROKER_PRESETS: ImportPreset[] = [
+    { id: 'andre', name: 'Andre template', mapping: { transaction_type: 'transaction_type', ticker: 'ticker', buy_date: 'buy_date', quantity: 'quantity', price: 'price', lot_id: 'lot_id', currency: 'currency', exchange: 'exchange' } },
+    { id: 'fidelity', name: 'Fidelity', mapping: { transaction_type: 'Action', ticker: 'Symbol', buy_date: 'Run Date', quantity: 'Quantity', price: 'Price ($)' } },
+    { id: 'schwab', name: 'Charles Schwab', mapping: { transaction_type: 'Action', ticker: 'Symbol', buy_date: 'Date', quantity: 'Quantity', price: 'Price' } },
+    { id: 'robinhood', name: 'Robinhood', mapping: { transaction_type: 'Trans Code', ticker: 'Instrument', buy_date: 'Activity Date', quantity: 'Quantity', price: 'Price' } },
+    { id: 'vanguard', name: 'Vanguard', mapping: { transaction_type: 'Transaction Type', ticker: 'Symbol', buy_date: 'Trade Date', quantity: 'Shares', price: 'Share Price' } },
+    { id: 'ibkr', name: 'Interactive Brokers', mapping: { ticker: 'Symbol', buy_date: 'Date/Time', quantity: 'Quantity', price: 'T. Price', currency: 'Currency', exchange: 'Exchange' } },
+];
+
+// Fallback header guesses for files that match no preset.
+const FIELD_ALIASES: Record<TransactionField, string[]> = {
+    transaction_type: ['transaction_type', 'type', 'action', 'transaction type', 'trans code', 'activity'],
+    ticker: ['ticker', 'symbol', 'instrument', 'security', 'stock'],
+    buy_date: ['buy_date', 'date', 'trade date', 'run date', 'activity date', 'transaction date', 'settlement date'],
+    quantity: ['quantity', 'qty', 'shares', 'units'],
+    price: ['price', 'price ($)', 'share price', 'unit price', 't. price', 'cost per share'],
+    lot_id: ['lot_id', 'lot id', 'lot'],
+    currency: ['currency', 'ccy', 'price currency', 'trade currency'],
+    exchange: ['exchange', 'market', 'listing exchange'],
+};
+
+const CUSTOM_PRESETS_KEY = 'andre.importPresets';
+
+const loadCustomPresets = (): ImportPreset[] => {
+    try {
+        return JSON.parse(localStorage.getItem(CUSTOM_PRESETS_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const saveCustomPresets = (presets: ImportPreset[]) => {
+    localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings.
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const source = text.replace(/^\uFEFF/, '');
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
             }
-            setTransactions(data.preview);
-            navigate('/dashboard');
-        } catch (err: any) {
-            setError(err.message || 'An unexpected error occurred.');
-        } finally {
-            setIsLoading(false);
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
         }
-    };
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
 
-    return (
-        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
-            <h1 className="text-5xl font-bold text-white mb-2">Andre</h1>
-            <p className="text-xl text-gray-400 mb-8">Your Best Smart Wall Street BFF</p>
-            <Card className="w-full max-w-md">
-                <h2 className="text-2xl font-semibold text-white mb-4 text-center">Link to Your Account</h2>
-                <p className="text-gray-400 mb-6 text-center">Upload your transaction history CSV to get started.</p>
-                <form onSubmit={handleSubmit} className="space-y-6">
-                    <div>
-                        <label htmlFor="file-upload" className="block text-sm font-medium text-gray-300">CSV File</label>
-                        <input id="file-upload" name="file-upload" type="file" accept=".csv" onChange={handleFileChange} className="mt-1 block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-cyan-500 file:text-white hover:file:bg-cyan-600"/>
-                    </div>
-                    {error && <p className="text-red-400 text-sm">{error}</p>}
-                    <button type="submit" disabled={isLoading} className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500 disabled:opacity-50">
-                        {isLoading ? <Spinner /> : 'Upload & Analyze'}
-                    </button>
-                </form>
-            </Card>
-        </div>
-    );
+const toCsv = (rows: (string | number)[][]): string =>
+    rows.map(row => row.map(cell => {
+        const text = String(cell);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',')).join('\n');
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+const findHeader = (headers: string[], name = '') =>
+    (name && headers.find(h => normalizeHeader(h) === normalizeHeader(name))) || '';
+
+const detectPreset = (headers: string[], presets: ImportPreset[]) =>
+    presets.find(preset => TRANSACTION_FIELDS.every(({ field, optional }) => optional || findHeader(headers, preset.mapping[field])));
+
+const guessMapping = (headers: string[]): ColumnMapping => {
+    const mapping = {} as ColumnMapping;
+    for (const { field } of TRANSACTION_FIELDS) {
+        mapping[field] = FIELD_ALIASES[field].map(alias => findHeader(headers, alias)).find(Boolean) || '';
+    }
+    return mapping;
 };
 
-const DashboardPage: FC = () => {
-    const { transactions } = useAppContext();
-    if (!transactions) return <p>No transaction data found. Please upload your history.</p>;
+// Resolves a preset's header names against the actual (possibly differently cased) file headers.
+const applyPreset = (headers: string[], preset: ImportPreset): ColumnMapping => {
+    const mapping = {} as ColumnMapping;
+    for (const { field } of TRANSACTION_FIELDS) mapping[field] = findHeader(headers, preset.mapping[field]);
+    return mapping;
+};
+
+// A letter-led symbol with an optional class or market suffix (BRK.B, SHEL.L), or a numeric code, which only
+// foreign markets use and so only with their suffix (7203.T, 0700.HK, 005930.KS).
+const TICKER_PATTERN = /^([A-Z][A-Z0-9]{0,5}([.-][A-Z0-9]{1,2})?|[0-9]{1,6}\.[A-Z]{1,2})$/;
+
+const normalizeTicker = (value: string) => value.trim().toUpperCase();
+
+// Broker exports describe the same action in many ways ("YOU BOUGHT", "Reinvestment", "CDIV", ...).
+// "Transfer" is left out on purpose: it can move cash or shares (ACATS, journals), so the user picks the type.
+const TRANSACTION_TYPE_CODES: Record<string, TransactionType> = { cdiv: 'dividend', div: 'dividend', spl: 'split', ach: 'deposit' };
+const TRANSACTION_TYPE_KEYWORDS: [string, TransactionType][] = [
+    ['sell', 'sell'], ['sold', 'sell'],
+    ['buy', 'buy'], ['bought', 'buy'], ['purchase', 'buy'], ['reinvest', 'buy'],
+    ['dividend', 'dividend'],
+    ['split', 'split'],
+    ['fee', 'fee'], ['commission', 'fee'],
+    ['deposit', 'deposit'], ['contribution', 'deposit'],
+];
+
+// Blank means 'buy', which is what every row was before the type column existed.
+const parseTransactionType = (value: string): TransactionType | null => {
+    const text = value.trim().toLowerCase();
+    if (!text) return 'buy';
+    if (TRANSACTION_TYPE_CODES[text]) return TRANSACTION_TYPE_CODES[text];
+    const match = TRANSACTION_TYPE_KEYWORDS.find(([keyword]) => text.includes(keyword));
+    return match ? match[1] : null;
+};
+
+const isCashTransaction = (type: TransactionType) => type === 'dividend' || type === 'fee' || type === 'deposit';
+
+// Strips currency symbols and thousands separators; "(12.50)" is read as -12.50.
+const parseNumber = (value: string): number | null => {
+    let text = value.trim().replace(/[$,\s]/g, '');
+    let sign = 1;
+    if (/^\(.*\)$/.test(text)) {
+        sign = -1;
+        text = text.slice(1, -1);
+    }
+    if (!text || !/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+    return sign * Number(text);
+};
+
+// Accepts ISO dates (optionally with a time part), MM/DD/YYYY, MM/DD/YY and YYYYMMDD; returns YYYY-MM-DD.
+const parseTradeDate = (value: string): string | null => {
+    const text = value.trim().split(/[ ,T]/)[0];
+    let year: number, month: number, day: number;
+    let match: RegExpMatchArray | null;
+    if ((match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/))) {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else if ((match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/))) {
+        [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        if (year < 100) year += 2000;
+    } else if ((match = text.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+        [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else {
+        return null;
+    }
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    const iso = date.toISOString().slice(0, 10);
+    // Against the local calendar date: ahead of UTC, today's trades would otherwise be "in the future".
+    return iso > new Date().toLocaleDateString('en-CA') ? null : iso;
+};
+
+// Cash transactions may leave quantity blank (one unit at `price`), and splits may leave price blank.
+const parseImportQuantity = (values: ImportRow['values'], type: TransactionType) => {
+    if (!values.quantity.trim() && isCashTransaction(type)) return 1;
+    const quantity = parseNumber(values.quantity);
+    // Some brokers export sells with negative quantities.
+    return quantity !== null && type === 'sell' ? Math.abs(quantity) : quantity;
+};
+
+const parseImportPrice = (values: ImportRow['values'], type: TransactionType) =>
+    !values.price.trim() && type === 'split' ? 0 : parseNumber(values.price);
+
+const validateImportRow = (values: ImportRow['values']): RowErrors => {
+    const errors: RowErrors = {};
+    const type = parseTransactionType(values.transaction_type);
+    if (!type) errors.transaction_type = `Unknown transaction type "${values.transaction_type}"`;
+    const tickerOptional = type === 'fee' || type === 'deposit';
+    if (!(tickerOptional && !values.ticker.trim()) && !TICKER_PATTERN.test(normalizeTicker(values.ticker))) {
+        errors.ticker = `Invalid ticker "${values.ticker}"`;
+    }
+    if (!parseTradeDate(values.buy_date)) errors.buy_date = `Invalid date "${values.buy_date}"`;
+    const quantity = parseImportQuantity(values, type || 'buy');
+    if (quantity === null) errors.quantity = `Quantity "${values.quantity}" is not a number`;
+    else if (quantity <= 0) errors.quantity = type === 'split' ? 'Split ratio must be greater than zero' : 'Quantity must be greater than zero';
+    const price = parseImportPrice(values, type || 'buy');
+    if (price === null) errors.price = `Price "${values.price}" is not a number`;
+    else if (price < 0) errors.price = 'Price cannot be negative';
+    if (values.currency.trim() && !CURRENCY_PATTERN.test(values.currency.trim().toUpperCase())) {
+        errors.currency = `Unknown currency "${values.currency}"`;
+    }
+    return errors;
+};
+
+// Non-blocking: the symbol directory is far from complete, so an unlisted ticker may still be right.
+const importRowWarnings = (values: ImportRow['values']): RowErrors => {
+    const ticker = normalizeTicker(values.ticker);
+    return TICKER_PATTERN.test(ticker) && !isKnownSymbol(ticker) ? { ticker: `Unknown ticker "${ticker}"; double-check the spelling` } : {};
+};
+
+const buildImportRows = (rows: string[][], headers: string[], mapping: ColumnMapping): ImportRow[] =>
+    rows.map((cells, i) => {
+        const values = {} as ImportRow['values'];
+        for (const { field } of TRANSACTION_FIELDS) {
+            const column = headers.indexOf(mapping[field]);
+            values[field] = column >= 0 ? (cells[column] ?? '').trim() : '';
+        }
+        // +2: one for the header row, one for 1-based line numbers.
+        return { id: i, line: i + 2, values };
+    });
+
+// Only call with rows that passed validateImportRow.
+const toTransaction = (values: ImportRow['values']): Transaction => {
+    const type = parseTransactionType(values.transaction_type)!;
+    const transaction: Transaction = {
+        ticker: normalizeTicker(values.ticker),
+        buy_date: parseTradeDate(values.buy_date)!,
+        quantity: parseImportQuantity(values, type)!,
+        price: parseImportPrice(values, type)!,
+        transaction_type: type,
+    };
+    if (values.lot_id.trim()) transaction.lot_id = values.lot_id.trim();
+    if (values.currency.trim()) transaction.currency = values.currency.trim().toUpperCase();
+    if (values.exchange.trim()) transaction.exchange = values.exchange.trim();
+    return transaction;
+};
+
+// --- LOT ACCOUNTING ---
+type LotMethod = 'fifo' | 'lifo' | 'specific';
+type Lot = {
+    id: string;
+    ticker: string;
+    openDate: string;
+    quantity: number;
+    costPerShare: number;
+    currency: string;
+};
+type RealizedGain = {
+    ticker: string;
+    lotId: string;
+    openDate: string;
+    closeDate: string;
+    quantity: number;
+    proceeds: number;
+    costBasis: number;
+    gain: number;
+};
+type LotLedger = {
+    openLots: Lot[];
+    realized: RealizedGain[];
+    dividends: number;
+    fees: number;
+    deposits: number;
+    warnings: string[];
+};
+
+const LOT_METHODS: { method: LotMethod; label: string }[] = [
+    { method: 'fifo', label: 'FIFO (first in, first out)' },
+    { method: 'lifo', label: 'LIFO (last in, first out)' },
+    { method: 'specific', label: 'Specific lot' },
+];
+
+const transactionType = (tx: Transaction): TransactionType => tx.transaction_type ?? 'buy';
+
+// Remainders below this are floating-point noise from fractional shares, not real holdings.
+const SHARE_EPSILON = 1e-9;
+
+// Chronological order; on the same day buys and splits settle before sells so same-day round trips close.
+const sortForLedger = (transactions: Transaction[]) => {
+    const rank = (tx: Transaction) => (transactionType(tx) === 'sell' ? 1 : 0);
+    return transactions
+        .map((tx, index) => ({ tx, index }))
+        .sort((a, b) => a.tx.buy_date.localeCompare(b.tx.buy_date) || rank(a.tx) - rank(b.tx) || a.index - b.index);
+};
+
+// Replays the transaction history into open lots and realized gains under the given cost-basis method.
+// Under 'specific', a sell's lot_id names the lot to sell from; any remainder falls back to FIFO.
+const computeLots = (transactions: Transaction[], method: LotMethod): LotLedger => {
+    const ledger: LotLedger = { openLots: [], realized: [], dividends: 0, fees: 0, deposits: 0, warnings: [] };
+    for (const { tx, index } of sortForLedger(transactions)) {
+        const type = transactionType(tx);
+        switch (type) {
+            case 'buy':
+                ledger.openLots.push({
+                    id: tx.lot_id || `${tx.ticker}-${tx.buy_date}-${index}`,
+                    ticker: tx.ticker,
+                    openDate: tx.buy_date,
+                    quantity: tx.quantity,
+                    costPerShare: tx.price,
+                    currency: transactionCurrency(tx),
+                });
+                break;
+            case 'sell': {
+                const candidates = ledger.openLots.filter(lot => lot.ticker === tx.ticker);
+                if (method === 'lifo') candidates.reverse();
+                if (method === 'specific' && tx.lot_id) {
+                    const chosen = candidates.findIndex(lot => lot.id === tx.lot_id);
+                    if (chosen >= 0) candidates.unshift(...candidates.splice(chosen, 1));
+                    else ledger.warnings.push(`Lot "${tx.lot_id}" for the ${tx.ticker} sale on ${tx.buy_date} was not found; using FIFO.`);
+                }
+                let remaining = tx.quantity;
+                for (const lot of candidates) {
+                    if (remaining <= SHARE_EPSILON) break;
+                    const sold = Math.min(lot.quantity, remaining);
+                    ledger.realized.push({
+                        ticker: tx.ticker,
+                        lotId: lot.id,
+                        openDate: lot.openDate,
+                        closeDate: tx.buy_date,
+                        quantity: sold,
+                        proceeds: sold * tx.price,
+                        costBasis: sold * lot.costPerShare,
+                        gain: sold * (tx.price - lot.costPerShare),
+                    });
+                    lot.quantity -= sold;
+                    remaining -= sold;
+                }
+                if (remaining > SHARE_EPSILON) {
+                    ledger.warnings.push(`Sold ${remaining} more ${tx.ticker} shares than were held on ${tx.buy_date}.`);
+                }
+                ledger.openLots = ledger.openLots.filter(lot => lot.quantity > SHARE_EPSILON);
+                break;
+            }
+            case 'split':
+                for (const lot of ledger.openLots.filter(l => l.ticker === tx.ticker)) {
+                    lot.quantity *= tx.quantity;
+                    lot.costPerShare /= tx.quantity;
+                }
+                break;
+            case 'dividend':
+                ledger.dividends += tx.quantity * tx.price;
+                break;
+            case 'fee':
+                ledger.fees += tx.quantity * tx.price;
+                break;
+            case 'deposit':
+                ledger.deposits += tx.quantity * tx.price;
+                break;
+        }
+    }
+    return ledger;
+};
+
+// --- SYMBOLS & WATCHLISTS ---
+type SymbolInfo = { symbol: string; name: string };
+type Watchlist = { id: string; name: string; tickers: string[] };
+
+// Offline list for autocomplete and spell-checking; symbols outside it are allowed but flagged.
+const SYMBOL_DIRECTORY: SymbolInfo[] = [
+    { symbol: 'AAPL', name: 'Apple Inc.' },
+    { symbol: 'ABBV', name: 'AbbVie Inc.' },
+    { symbol: 'ADBE', name: 'Adobe Inc.' },
+    { symbol: 'AMD', name: 'Advanced Micro Devices, Inc.' },
+    { symbol: 'AMZN', name: 'Amazon.com, Inc.' },
+    { symbol: 'ASML', name: 'ASML Holding N.V. (ADR)' },
+    { symbol: 'AVGO', name: 'Broadcom Inc.' },
+    { symbol: 'AXP', name: 'American Express Company' },
+    { symbol: 'BA', name: 'The Boeing Company' },
+    { symbol: 'BABA', name: 'Alibaba Group Holding Ltd. (ADR)' },
+    { symbol: 'BAC', name: 'Bank of America Corporation' },
+    { symbol: 'BND', name: 'Vanguard Total Bond Market ETF' },
+    { symbol: 'BP', name: 'BP p.l.c. (ADR)' },
+    { symbol: 'BRK.B', name: 'Berkshire Hathaway Inc. Class B' },
+    { symbol: 'C', name: 'Citigroup Inc.' },
+    { symbol: 'CAT', name: 'Caterpillar Inc.' },
+    { symbol: 'COST', name: 'Costco Wholesale Corporation' },
+    { symbol: 'CRM', name: 'Salesforce, Inc.' },
+    { symbol: 'CSCO', name: 'Cisco Systems, Inc.' },
+    { symbol: 'CVX', name: 'Chevron Corporation' },
+    { symbol: 'DIA', name: 'SPDR Dow Jones Industrial Average ETF' },
+    { symbol: 'DIS', name: 'The Walt Disney Company' },
+    { symbol: 'GE', name: 'General Electric Company' },
+    { symbol: 'GOOG', name: 'Alphabet Inc. Class C' },
+    { symbol: 'GOOGL', name: 'Alphabet Inc. Class A' },
+    { symbol: 'GS', name: 'The Goldman Sachs Group, Inc.' },
+    { symbol: 'HD', name: 'The Home Depot, Inc.' },
+    { symbol: 'HSBC', name: 'HSBC Holdings plc (ADR)' },
+    { symbol: 'IBM', name: 'International Business Machines Corporation' },
+    { symbol: 'INTC', name: 'Intel Corporation' },
+    { symbol: 'IWM', name: 'iShares Russell 2000 ETF' },
+    { symbol: 'JNJ', name: 'Johnson & Johnson' },
+    { symbol: 'JPM', name: 'JPMorgan Chase & Co.' },
+    { symbol: 'KO', name: 'The Coca-Cola Company' },
+    { symbol: 'LLY', name: 'Eli Lilly and Company' },
+    { symbol: 'MA', name: 'Mastercard Incorporated' },
+    { symbol: 'MCD', name: "McDonald's Corporation" },
+    { symbol: 'META', name: 'Meta Platforms, Inc.' },
+    { symbol: 'MRK', name: 'Merck & Co., Inc.' },
+    { symbol: 'MS', name: 'Morgan Stanley' },
+    { symbol: 'MSFT', name: 'Microsoft Corporation' },
+    { symbol: 'NFLX', name: 'Netflix, Inc.' },
+    { symbol: 'NKE', name: 'NIKE, Inc.' },
+    { symbol: 'NVDA', name: 'NVIDIA Corporation' },
+    { symbol: 'NVO', name: 'Novo Nordisk A/S (ADR)' },
+    { symbol: 'ORCL', name: 'Oracle Corporation' },
+    { symbol: 'PEP', name: 'PepsiCo, Inc.' },
+    { symbol: 'PFE', name: 'Pfizer Inc.' },
+    { symbol: 'PG', name: 'The Procter & Gamble Company' },
+    { symbol: 'PLTR', name: 'Palantir Technologies Inc.' },
+    { symbol: 'PYPL', name: 'PayPal Holdings, Inc.' },
+    { symbol: 'QCOM', name: 'QUALCOMM Incorporated' },
+    { symbol: 'QQQ', name: 'Invesco QQQ Trust' },
+    { symbol: 'SAP', name: 'SAP SE (ADR)' },
+    { symbol: 'SHEL', name: 'Shell plc (ADR)' },
+    { symbol: 'SHOP', name: 'Shopify Inc.' },
+    { symbol: 'SONY', name: 'Sony Group Corporation (ADR)' },
+    { symbol: 'SPY', name: 'SPDR S&P 500 ETF Trust' },
+    { symbol: 'T', name: 'AT&T Inc.' },
+    { symbol: 'TM', name: 'Toyota Motor Corporation (ADR)' },
+    { symbol: 'TMO', name: 'Thermo Fisher Scientific Inc.' },
+    { symbol: 'TSLA', name: 'Tesla, Inc.' },
+    { symbol: 'TSM', name: 'Taiwan Semiconductor Manufacturing Co. (ADR)' },
+    { symbol: 'UBER', name: 'Uber Technologies, Inc.' },
+    { symbol: 'UNH', name: 'UnitedHealth Group Incorporated' },
+    { symbol: 'V', name: 'Visa Inc.' },
+    { symbol: 'VOO', name: 'Vanguard S&P 500 ETF' },
+    { symbol: 'VTI', name: 'Vanguard Total Stock Market ETF' },
+    { symbol: 'VXUS', name: 'Vanguard Total International Stock ETF' },
+    { symbol: 'VZ', name: 'Verizon Communications Inc.' },
+    { symbol: 'WFC', name: 'Wells Fargo & Company' },
+    { symbol: 'WMT', name: 'Walmart Inc.' },
+    { symbol: 'XOM', name: 'Exxon Mobil Corporation' },
+];
+
+const SYMBOL_SUGGESTION_LIMIT = 8;
+
+const isKnownSymbol = (ticker: string) => SYMBOL_DIRECTORY.some(s => s.symbol === ticker);
+
+// Symbol prefix matches rank ahead of matches on the start of a word in the company name.
+const searchSymbols = (query: string, exclude: string[] = []): SymbolInfo[] => {
+    const text = query.trim().toUpperCase();
+    if (!text) return [];
+    const available = SYMBOL_DIRECTORY.filter(s => !exclude.includes(s.symbol));
+    const bySymbol = available.filter(s => s.symbol.startsWith(text));
+    const wordStart = new RegExp(`\\b${escapeRegExp(text)}`);
+    const byName = available.filter(s => !s.symbol.startsWith(text) && wordStart.test(s.name.toUpperCase()));
+    return [...bySymbol, ...byName].slice(0, SYMBOL_SUGGESTION_LIMIT);
+};
+
+// Splits pasted or typed text like "aapl, msft nvda" into unique normalized tickers.
+const parseTickerList = (text: string) => [...new Set(text.split(/[\s,;]+/).map(normalizeTicker).filter(Boolean))];
+
+// Tickers with shares still open under the portfolio's lot method, in first-bought order.
+const holdingTickers = (transactions: Transaction[] | null, method: LotMethod) =>
+    transactions ? [...new Set(computeLots(transactions, method).openLots.map(lot => lot.ticker))] : [];
+
+// --- SENTIMENT JOURNAL ---
+// `queued` entries were written offline and are waiting in the outbox to be sent to /get-sentiment.
+type SentimentEntry = {
+    id: string;
+    createdAt: string;
+    text: string;
+    score: SentimentScore;
+    tickers: string[];
+    queued?: boolean;
+};
+type SentimentWindow = 'latest' | '7d' | '30d' | 'all';
+
+const SENTIMENT_SCORES: { score: SentimentScore; label: string; value: number; className: string }[] = [
+    { score: 'bullish', label: 'Bullish', value: 1, className: 'bg-green-600' },
+    { score: 'neutral', label: 'Neutral', value: 0, className: 'bg-gray-500' },
+    { score: 'bearish', label: 'Bearish', value: -1, className: 'bg-red-600' },
+];
+
+const SENTIMENT_WINDOWS: { window: SentimentWindow; label: string; days: number | null }[] = [
+    { window: 'latest', label: 'Latest entry only', days: null },
+    { window: '7d', label: 'Last 7 days', days: 7 },
+    { window: '30d', label: 'Last 30 days', days: 30 },
+    { window: 'all', label: 'All entries', days: null },
+];
+
+const sentimentValue = (score: SentimentScore) => SENTIMENT_SCORES.find(s => s.score === score)!.value;
+
+// Newest first, which is how the journal is stored and shown.
+const selectSentimentWindow = (journal: SentimentEntry[], window: SentimentWindow, now = Date.now()): SentimentEntry[] => {
+    if (window === 'latest') return journal.slice(0, 1);
+    const days = SENTIMENT_WINDOWS.find(w => w.window === window)?.days;
+    if (!days) return journal;
+    const cutoff = now - days * 24 * 60 * 60 * 1000;
+    return journal.filter(entry => Date.parse(entry.createdAt) >= cutoff);
+};
+
+// Only a definite refusal drops a queued entry; network errors, timeouts, 5xx and expired sessions are retried.
+const isRejectedSubmission = (err: unknown) =>
+    err instanceof ApiError && err.kind === 'http' && err.status !== null && err.status >= 400 && err.status < 500 && err.status !== 401;
+
+type SentOutboxItem = { item: OutboxItem; text: string | null };
+
+// Sends queued entries oldest first and stops at the first that can't be sent yet. Each entry is taken out of
+// the outbox before it is sent and put back if it can't go, so it is never submitted twice. Returns what was
+// sent with the text the backend echoed (null for refused entries).
+const sendSentimentOutbox = async () => {
+    const items = (await storage.getAll<OutboxItem>('outbox')).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const sent: SentOutboxItem[] = [];
+    for (const item of items) {
+        // Already sent by another tab, or deleted from the journal meanwhile.
+        if (!(await storage.take<OutboxItem>('outbox', item.id))) continue;
+        try {
+            sent.push({ item, text: (await api.submitSentiment(item.payload)).sentiment });
+        } catch (err) {
+            if (!isRejectedSubmission(err)) {
+                await storage.put('outbox', item);
+                break;
+            }
+            console.error('The backend refused a queued sentiment entry; it is kept in the local journal only.', err);
+            sent.push({ item, text: null });
+        }
+    }
+    return sent;
+};
+
+// Module-level so overlapping callers (StrictMode's double effects, a relay remounted on login or a portfolio
+// switch) share the flush in flight instead of starting another.
+let outboxFlush: Promise<SentOutboxItem[]> | null = null;
+const flushSentimentOutbox = () => {
+    outboxFlush ??= sendSentimentOutbox().finally(() => {
+        outboxFlush = null;
+    });
+    return outboxFlush;
+};
+
+// One point per day: the average of that day's entries on a -1 (bearish) to 1 (bullish) scale.
+const dailySentimentSeries = (journal: SentimentEntry[]): ChartPoint[] => {
+    const byDay = new Map<string, number[]>();
+    for (const entry of journal) {
+        const day = entry.createdAt.slice(0, 10);
+        byDay.set(day, [...(byDay.get(day) || []), sentimentValue(entry.score)]);
+    }
+    return [...byDay.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, values]) => ({ date, value: values.reduce((sum, v) => sum + v, 0) / values.length }));
+};
+
+// Free-text summary for the `sentiment` field, which backends predating the journal still read.
+const summarizeSentiment = (entries: SentimentEntry[]) =>
+    entries.map(e => `[${e.createdAt.slice(0, 10)}, ${e.score}${e.tickers.length ? `, ${e.tickers.join('/')}` : ''}] ${e.text}`).join('\n');
+
+// --- NEWS ---
+// A story is one or more headlines about the same event, possibly from several sources.
+type NewsStory = {
+    id: string;
+    title: string;
+    link: string;
+    sources: { source: string; link: string }[];
+    tickers: string[];
+};
+
+// Names headlines use instead of the symbol. Matched case-insensitively on word boundaries.
+const COMPANY_NAMES: Record<string, string[]> = {
+    AAPL: ['Apple'],
+    MSFT: ['Microsoft'],
+    GOOG: ['Google', 'Alphabet'],
+    GOOGL: ['Google', 'Alphabet'],
+    AMZN: ['Amazon'],
+    META: ['Meta Platforms', 'Facebook'],
+    NVDA: ['Nvidia'],
+    TSLA: ['Tesla'],
+    NFLX: ['Netflix'],
+    AMD: ['Advanced Micro Devices'],
+    INTC: ['Intel'],
+    'BRK.B': ['Berkshire Hathaway', 'Berkshire'],
+    JPM: ['JPMorgan', 'JP Morgan'],
+    V: ['Visa'],
+    MA: ['Mastercard'],
+    DIS: ['Disney'],
+    KO: ['Coca-Cola'],
+    WMT: ['Walmart'],
+    TSM: ['TSMC', 'Taiwan Semiconductor'],
+    BABA: ['Alibaba'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Short symbols ("V", "MA", "ON") are ordinary words, so they only count as "$V" or "(V)".
+const mentionsTicker = (title: string, ticker: string) => {
+    const symbol = escapeRegExp(ticker);
+    const pattern = ticker.length >= 3 ? `(^|[^A-Za-z0-9])\\$?${symbol}($|[^A-Za-z0-9])` : `\\$${symbol}\\b|\\(${symbol}\\)`;
+    if (new RegExp(pattern).test(title)) return true;
+    return (COMPANY_NAMES[ticker] || []).some(name => new RegExp(`\\b${escapeRegExp(name)}\\b`, 'i').test(title));
+};
+
+// Prefers tickers the backend supplied; otherwise matches the title against the tickers that were requested.
+// When only one ticker was requested, every headline in the response is about it.
+const attributeHeadlines = (headlines: NewsHeadline[], requested: string[]): NewsHeadline[] =>
+    headlines.map(headline => {
+        const supplied = [...(headline.tickers || []), ...(headline.ticker ? [headline.ticker] : [])].map(normalizeTicker).filter(Boolean);
+        if (supplied.length) return { ...headline, tickers: [...new Set(supplied)] };
+        const matched = requested.filter(ticker => mentionsTicker(headline.title, ticker));
+        return { ...headline, tickers: matched.length || requested.length !== 1 ? matched : requested };
+    });
+
+// Lowercased words without punctuation or a trailing " - Source" / " | Source" credit.
+const titleWords = (headline: NewsHeadline) => {
+    const credit = new RegExp(`\\s[-|–—]\\s*${escapeRegExp(headline.source)}\\s*$`, 'i');
+    return headline.title.replace(credit, '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+};
+
+// Two titles are the same story when they share at least 80% of their words.
+const STORY_SIMILARITY = 0.8;
+
+const sameStory = (a: string[], b: string[]) => {
+    const [setA, setB] = [new Set(a), new Set(b)];
+    const shared = [...setA].filter(word => setB.has(word)).length;
+    return shared / new Set([...a, ...b]).size >= STORY_SIMILARITY;
+};
+
+const groupNewsStories = (headlines: NewsHeadline[]): NewsStory[] => {
+    const stories: (NewsStory & { words: string[] })[] = [];
+    for (const headline of headlines) {
+        const words = titleWords(headline);
+        const story = stories.find(s => sameStory(s.words, words));
+        if (story) {
+            if (!story.sources.some(s => s.source === headline.source)) story.sources.push({ source: headline.source, link: headline.link });
+            story.tickers = [...new Set([...story.tickers, ...(headline.tickers || [])])];
+        } else {
+            stories.push({
+                id: headline.link || headline.title,
+                title: headline.title,
+                link: headline.link,
+                sources: [{ source: headline.source, link: headline.link }],
+                tickers: headline.tickers || [],
+                words,
+            });
+        }
+    }
+    return stories.map(({ words: _words, ...story }) => story);
+};
+
+// --- ANALYSIS ---
+const sentimentHistory = (entries: SentimentEntry[]): AnalyzeRequest['sentiment_history'] =>
+    entries.map(e => ({ date: e.createdAt, text: e.text, score: e.score, tickers: e.tickers }));
+
+const transactionHistory = (transactions: Transaction[]): AnalyzeRequest['transaction_history'] =>
+    transactions.map(t => ({...t, transaction_date: t.buy_date, transaction_type: transactionType(t)}));
+
+const currentMetrics = (stockData: StockData[]): AnalyzeRequest['current_metrics'] =>
+    stockData.map(s => ({ticker: s.ticker, pe_ratio: s.pe_ratio, eps: s.eps, currency: quoteCurrency(s)}));
+
+// One summary per (story, ticker); stories no holding could be matched to are left to marketNews.
+const newsSummaries = (news: NewsHeadline[]): AnalyzeRequest['news_summaries'] =>
+    groupNewsStories(news).flatMap(story => story.tickers.map(ticker => ({ ticker, headline: story.title })));
+
+const marketNews = (news: NewsHeadline[]): AnalyzeRequest['market_news'] =>
+    groupNewsStories(news).filter(story => story.tickers.length === 0).map(story => story.title);
+
+const buildAnalyzePayload = (input: {
+    userId: string;
+    sentimentEntries: SentimentEntry[];
+    transactions: Transaction[];
+    stockData: StockData[];
+    news: NewsHeadline[];
+    lotMethod: LotMethod;
+}): AnalyzeRequest => ({
+    user_id: input.userId,
+    sentiment: summarizeSentiment(input.sentimentEntries),
+    sentiment_history: sentimentHistory(input.sentimentEntries),
+    transaction_history: transactionHistory(input.transactions),
+    // What is still held after sells, so advice isn't based on positions that were already closed.
+    open_lots: computeLots(input.transactions, input.lotMethod).openLots.map(lot => ({
+        ticker: lot.ticker, open_date: lot.openDate, quantity: lot.quantity, cost_per_share: lot.costPerShare, currency: lot.currency,
+    })),
+    current_metrics: currentMetrics(input.stockData),
+    news_summaries: newsSummaries(input.news),
+    market_news: marketNews(input.news),
+});
+
+// The parts of an analysis input that concern one ticker, shown alongside its recommendation.
+const tickerInputs = (input: AnalyzeRequest, ticker: string) => ({
+    metric: input.current_metrics.find(m => m.ticker === ticker),
+    shares: input.open_lots.filter(lot => lot.ticker === ticker).reduce((sum, lot) => sum + lot.quantity, 0),
+    headlines: input.news_summaries.filter(n => n.ticker === ticker).map(n => n.headline),
+});
+
+const CONFIDENCE_LEVELS = ['low', 'medium', 'high'];
+
+type RunChange = 'flipped' | 'confidence' | 'added' | 'removed' | 'unchanged';
+
+type RunDiffRow = {
+    ticker: string;
+    before?: Recommendation;
+    after?: Recommendation;
+    change: RunChange;
+    // Steps up (+) or down (-) the low/medium/high scale; 0 when either side is missing or unrecognized.
+    confidenceDelta: number;
+    peBefore?: number;
+    peAfter?: number;
+    sharesBefore: number;
+    sharesAfter: number;
+    newHeadlines: string[];
+};
+
+const RUN_CHANGE_ORDER: RunChange[] = ['flipped', 'confidence', 'added', 'removed', 'unchanged'];
+
+// Compares two runs ticker by ticker, together with the inputs that may explain each change.
+const diffRuns = (base: AnalysisRun, next: AnalysisRun): RunDiffRow[] => {
+    const tickers = [...new Set([...base.recommendations, ...next.recommendations].map(r => r.ticker))];
+    return tickers.map(ticker => {
+        const before = base.recommendations.find(r => r.ticker === ticker);
+        const after = next.recommendations.find(r => r.ticker === ticker);
+        const [rankBefore, rankAfter] = [before, after].map(r => CONFIDENCE_LEVELS.indexOf(r?.confidence.toLowerCase() ?? ''));
+        const confidenceDelta = rankBefore >= 0 && rankAfter >= 0 ? rankAfter - rankBefore : 0;
+        const change: RunChange = !before ? 'added'
+            : !after ? 'removed'
+            : before.recommendation.toLowerCase() !== after.recommendation.toLowerCase() ? 'flipped'
+            : before.confidence.toLowerCase() !== after.confidence.toLowerCase() ? 'confidence'
+            : 'unchanged';
+        const [inputBefore, inputAfter] = [tickerInputs(base.input, ticker), tickerInputs(next.input, ticker)];
+        return {
+            ticker,
+            before,
+            after,
+            change,
+            confidenceDelta,
+            peBefore: inputBefore.metric?.pe_ratio,
+            peAfter: inputAfter.metric?.pe_ratio,
+            sharesBefore: inputBefore.shares,
+            sharesAfter: inputAfter.shares,
+            newHeadlines: inputAfter.headlines.filter(h => !inputBefore.headlines.includes(h)),
+        };
+    }).sort((a, b) => RUN_CHANGE_ORDER.indexOf(a.change) - RUN_CHANGE_ORDER.indexOf(b.change) || a.ticker.localeCompare(b.ticker));
+};
+
+// --- CURRENCIES ---
+// Amounts are stored in the currency they were traded or quoted in and restated in the portfolio's base
+// currency for display, using rates from /get-fx-rates.
+const DEFAULT_CURRENCY = 'USD';
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const BASE_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'HKD', 'SGD', 'SEK', 'NOK', 'DKK', 'CNY', 'INR', 'KRW', 'BRL', 'MXN', 'ZAR'];
+
+// Exchange rates into `base` for the currencies the active portfolio uses; see FxRatesResponse.
+type FxTable = { base: string; rates: FxRatesResponse['rates'] };
+// Transactions and prices restated in `currency`; amounts in the currencies listed in `missing` had no rate.
+type BaseCurrencyData = {
+    currency: string;
+    transactions: Transaction[] | null;
+    stockData: StockData[] | null;
+    missing: string[];
+};
+
+const transactionCurrency = (tx: Transaction) => tx.currency ?? DEFAULT_CURRENCY;
+const quoteCurrency = (stock: StockData) => stock.currency ?? DEFAULT_CURRENCY;
+
+// The rate on `date`, or on the last day before it that has one; the latest rate when no date is given.
+// Dates before the series starts use its first rate. Null when the currency has no rates loaded.
+const fxRate = (fx: FxTable, currency: string, date?: string): number | null => {
+    if (currency === fx.base) return 1;
+    const series = fx.rates[currency];
+    if (!series?.length) return null;
+    if (!date) return series[series.length - 1].rate;
+    let low = 0;
+    let high = series.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (series[mid].date <= date) low = mid;
+        else high = mid - 1;
+    }
+    return series[low].rate;
+};
+
+// The currencies other than `base` that a portfolio trades or is quoted in, and the first date a rate is needed for.
+// Codes that aren't ISO-shaped (quotes come from the backend unchecked) are never requested; they stay unconverted.
+const fxRequirements = (base: string, transactions: Transaction[] | null, stockData: StockData[] | null) => {
+    const currencies = new Set<string>();
+    const dates: string[] = [];
+    for (const tx of transactions ?? []) {
+        if (transactionCurrency(tx) === base || !CURRENCY_PATTERN.test(transactionCurrency(tx))) continue;
+        currencies.add(transactionCurrency(tx));
+        dates.push(tx.buy_date);
+    }
+    for (const stock of stockData ?? []) {
+        if (quoteCurrency(stock) === base || !CURRENCY_PATTERN.test(quoteCurrency(stock))) continue;
+        currencies.add(quoteCurrency(stock));
+        dates.push(...stock.price_history.map(p => p.date));
+    }
+    return { currencies: [...currencies].sort(), start: dates.reduce((min, d) => (d < min ? d : min), new Date().toISOString().slice(0, 10)) };
+};
+
+// Trades convert at the rate on their trade date, so cost basis and realized gains keep their historical value.
+// Each close converts at the rate on its date, so the latest close (and market value) uses the current rate.
+const toBaseCurrency = (transactions: Transaction[] | null, stockData: StockData[] | null, fx: FxTable): BaseCurrencyData => {
+    const missing = new Set<string>();
+    const rateFor = (currency: string, date?: string) => {
+        const rate = fxRate(fx, currency, date);
+        if (rate === null) missing.add(currency);
+        return rate;
+    };
+    return {
+        currency: fx.base,
+        transactions: transactions && transactions.map(tx => {
+            const rate = transactionCurrency(tx) === fx.base ? null : rateFor(transactionCurrency(tx), tx.buy_date);
+            return rate === null ? tx : { ...tx, price: tx.price * rate, currency: fx.base };
+        }),
+        stockData: stockData && stockData.map(stock => {
+            const currency = quoteCurrency(stock);
+            if (currency === fx.base || rateFor(currency) === null) return stock;
+            return {
+                ...stock,
+                currency: fx.base,
+                eps: stock.eps * fxRate(fx, currency)!,
+                price_history: stock.price_history.map(p => ({ date: p.date, close: p.close * fxRate(fx, currency, p.date)! })),
+            };
+        }),
+        missing: [...missing].sort(),
+    };
+};
+
+// Rates are cached per currency pair and refetched once a day, or sooner when an earlier start date is needed.
+// If refetching fails, cached rates are used as they are; it only throws when a currency has no rates at all.
+const loadFxRates = async (base: string, currencies: string[], start: string, signal?: AbortSignal): Promise<FxTable> => {
+    const today = new Date().toISOString().slice(0, 10);
+    const cached = await Promise.all(currencies.map(c => storage.get<FxRatesRecord>('fxRates', `${c}:${base}`).catch(() => undefined)));
+    const rates: FxTable['rates'] = {};
+    const stale = currencies.filter((currency, i) => {
+        const record = cached[i];
+        if (record) rates[currency] = record.series;
+        return !record || record.fetchedOn !== today || record.start > start;
+    });
+    if (stale.length === 0) return { base, rates };
+    try {
+        const response = await api.getFxRates(base, stale, start, signal);
+        for (const currency of stale) {
+            const series = (response.rates[currency] ?? []).filter(p => p.rate > 0).sort((a, b) => a.date.localeCompare(b.date));
+            if (series.length === 0) continue;
+            rates[currency] = series;
+            const record: FxRatesRecord = { id: `${currency}:${base}`, start, fetchedOn: today, series };
+            storage.put('fxRates', record).catch(err => console.error('Could not cache exchange rates.', err));
+        }
+    } catch (err) {
+        if (isAbortError(err) || stale.some(currency => !rates[currency])) throw err;
+    }
+    return { base, rates };
+};
+
+// --- POSITIONS ---
+type Position = {
+    ticker: string;
+    shares: number;
+    costBasis: number;
+    averageCost: number;
+    lastClose: number | null;
+    marketValue: number | null;
+    unrealizedPnl: number | null;
+    unrealizedPct: number | null;
+    weight: number;
+};
+
+const latestClose = (stock: StockData | undefined): number | null => {
+    if (!stock || stock.price_history.length === 0) return null;
+    return stock.price_history.reduce((latest, point) => (point.date > latest.date ? point : latest)).close;
+};
+
+// Rolls open lots up into one position per ticker, priced at the latest close where one has been fetched.
+// Weights use market value, falling back to cost basis for tickers without a price.
+const buildPositions = (openLots: Lot[], stockData: StockData[] | null): Position[] => {
+    const byTicker = new Map<string, { shares: number; costBasis: number }>();
+    for (const lot of openLots) {
+        const entry = byTicker.get(lot.ticker) || { shares: 0, costBasis: 0 };
+        entry.shares += lot.quantity;
+        entry.costBasis += lot.quantity * lot.costPerShare;
+        byTicker.set(lot.ticker, entry);
+    }
+    const positions = [...byTicker.entries()].map(([ticker, { shares, costBasis }]) => {
+        const lastClose = latestClose(stockData?.find(s => s.ticker === ticker));
+        const marketValue = lastClose === null ? null : shares * lastClose;
+        const unrealizedPnl = marketValue === null ? null : marketValue - costBasis;
+        return {
+            ticker,
+            shares,
+            costBasis,
+            averageCost: costBasis / shares,
+            lastClose,
+            marketValue,
+            unrealizedPnl,
+            unrealizedPct: unrealizedPnl === null || costBasis === 0 ? null : unrealizedPnl / costBasis,
+            weight: 0,
+        };
+    });
+    const total = positions.reduce((sum, p) => sum + (p.marketValue ?? p.costBasis), 0);
+    for (const position of positions) position.weight = total ? (position.marketValue ?? position.costBasis) / total : 0;
+    return positions;
+};
+
+// A day's value plus the net cash the investor put into the holdings that day: buys and fees count in,
+// sells and dividends count out. Buys and sells of tickers without price data are left out, like their value.
+type ValuePoint = ChartPoint & { flow: number };
+
+// Daily portfolio value: shares held on each priced date times that day's close (or the last close before it).
+const portfolioValueSeries = (transactions: Transaction[], stockData: StockData[]): ValuePoint[] => {
+    const closes = new Map(stockData.map(stock => [stock.ticker, new Map(stock.price_history.map(p => [p.date, p.close]))]));
+    const dates = [...new Set(stockData.flatMap(stock => stock.price_history.map(p => p.date)))].sort();
+    const ordered = sortForLedger(transactions).map(({ tx }) => tx);
+    const shares = new Map<string, number>();
+    const lastClose = new Map<string, number>();
+    const series: ValuePoint[] = [];
+    let next = 0;
+    let flow = 0;
+    for (const date of dates) {
+        for (; next < ordered.length && ordered[next].buy_date <= date; next++) {
+            const tx = ordered[next];
+            const held = shares.get(tx.ticker) || 0;
+            const type = transactionType(tx);
+            const amount = tx.quantity * tx.price;
+            if (type === 'buy') shares.set(tx.ticker, held + tx.quantity);
+            else if (type === 'sell') shares.set(tx.ticker, Math.max(0, held - tx.quantity));
+            else if (type === 'split') shares.set(tx.ticker, held * tx.quantity);
+            if (type === 'buy' || type === 'sell') flow += closes.has(tx.ticker) ? (type === 'buy' ? amount : -amount) : 0;
+            else if (type === 'fee') flow += amount;
+            else if (type === 'dividend') flow -= amount;
+        }
+        for (const [ticker, byDate] of closes) {
+            const close = byDate.get(date);
+            if (close !== undefined) lastClose.set(ticker, close);
+        }
+        let value = 0;
+        for (const [ticker, held] of shares) value += held * (lastClose.get(ticker) ?? 0);
+        if (shares.size > 0) {
+            series.push({ date, value, flow });
+            flow = 0;
+        }
+    }
+    return series;
+};
+
+// --- PERFORMANCE ANALYTICS ---
+const TRADING_DAYS_PER_YEAR = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Sample covariance; 0 for fewer than two observations.
+const covariance = (xs: number[], ys: number[]) => {
+    if (xs.length < 2) return 0;
+    const [mx, my] = [mean(xs), mean(ys)];
+    return xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / (xs.length - 1);
+};
+
+const stdev = (values: number[]) => Math.sqrt(covariance(values, values));
+
+// Pearson correlation, or null when either side never moves.
+const correlation = (xs: number[], ys: number[]) => {
+    const spread = stdev(xs) * stdev(ys);
+    return spread ? covariance(xs, ys) / spread : null;
+};
+
+// Day-over-day close returns, dated by the later day.
+const priceReturns = (stock: StockData): ChartPoint[] => {
+    const history = sortedHistory(stock);
+    return history.slice(1).map((p, i) => ({ date: p.date, value: p.value / history[i].value - 1 }));
+};
+
+// Daily returns with each day's cash flow taken out, so money added to the portfolio doesn't count as gains.
+const timeWeightedReturns = (points: ValuePoint[]): ChartPoint[] =>
+    points.slice(1).flatMap((p, i) => (points[i].value > 0 ? [{ date: p.date, value: (p.value - p.flow) / points[i].value - 1 }] : []));
+
+const compoundReturn = (returns: number[]) => returns.reduce((growth, r) => growth * (1 + r), 1) - 1;
+
+// Largest peak-to-trough fall of the compounded returns, as a negative fraction (0 if it never fell).
+const maxDrawdown = (returns: number[]) => {
+    let growth = 1;
+    let peak = 1;
+    let worst = 0;
+    for (const r of returns) {
+        growth *= 1 + r;
+        peak = Math.max(peak, growth);
+        worst = Math.min(worst, growth / peak - 1);
+    }
+    return worst;
+};
+
+// The annual rate at which the dated cash flows (negative = paid in) net to zero, found by bisection.
+// Null when there is no sign change to solve for.
+const xirr = (flows: { date: string; amount: number }[]): number | null => {
+    if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+    const start = Date.parse(flows[0].date);
+    const npv = (rate: number) => flows.reduce((sum, f) => sum + f.amount / (1 + rate) ** ((Date.parse(f.date) - start) / (365 * DAY_MS)), 0);
+    let [low, high] = [-0.9999, 10];
+    if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+    for (let i = 0; i < 200 && high - low > 1e-9; i++) {
+        const mid = (low + high) / 2;
+        if (Math.sign(npv(mid)) === Math.sign(npv(low))) low = mid;
+        else high = mid;
+    }
+    return (low + high) / 2;
+};
+
+// Treats the holdings at the start of the period as bought on its first day and sold on its last.
+const periodCashFlows = (points: ValuePoint[]) => [
+    { date: points[0].date, amount: -points[0].value },
+    ...points.slice(1).map(p => ({ date: p.date, amount: -p.flow })).filter(f => f.amount !== 0),
+    { date: points[points.length - 1].date, amount: points[points.length - 1].value },
+];
+
+// Joins two return series on their dates.
+const alignReturns = (a: ChartPoint[], b: ChartPoint[]): [number[], number[]] => {
+    const byDate = new Map(b.map(p => [p.date, p.value]));
+    const pairs = a.filter(p => byDate.has(p.date));
+    return [pairs.map(p => p.value), pairs.map(p => byDate.get(p.date)!)];
+};
+
+type PerformanceStats = {
+    days: number;
+    twr: number;
+    // Only for periods of a year or more; shorter ones aren't annualized.
+    twrAnnualized: number | null;
+    mwr: number | null;
+    volatility: number;
+    maxDrawdown: number;
+    sharpe: number | null;
+    beta: number | null;
+};
+
+// Stats for a value series already cut to the period of interest. The risk-free rate is annual.
+const performanceStats = (points: ValuePoint[], benchmark: StockData | null, riskFreeRate: number): PerformanceStats | null => {
+    const returns = timeWeightedReturns(points);
+    if (returns.length < 2) return null;
+    const values = returns.map(r => r.value);
+    const days = (Date.parse(points[points.length - 1].date) - Date.parse(points[0].date)) / DAY_MS;
+    const twr = compoundReturn(values);
+    const dailyStdev = stdev(values);
+    const benchmarkReturns = benchmark ? priceReturns(benchmark) : [];
+    const [portfolioAligned, benchmarkAligned] = alignReturns(returns, benchmarkReturns);
+    const benchmarkVariance = covariance(benchmarkAligned, benchmarkAligned);
+    return {
+        days,
+        twr,
+        twrAnnualized: days >= 365 ? (1 + twr) ** (365 / days) - 1 : null,
+        mwr: xirr(periodCashFlows(points)),
+        volatility: dailyStdev * Math.sqrt(TRADING_DAYS_PER_YEAR),
+        maxDrawdown: maxDrawdown(values),
+        sharpe: dailyStdev ? (mean(values) - riskFreeRate / TRADING_DAYS_PER_YEAR) / dailyStdev * Math.sqrt(TRADING_DAYS_PER_YEAR) : null,
+        beta: benchmarkAligned.length >= 2 && benchmarkVariance ? covariance(portfolioAligned, benchmarkAligned) / benchmarkVariance : null,
+    };
+};
+
+// Pairwise correlation of daily price returns over the dates each pair has in common.
+const correlationMatrix = (stocks: StockData[], since: string) => {
+    const returns = stocks.map(stock => priceReturns(stock).filter(r => r.date >= since));
+    return returns.map(a => returns.map(b => correlation(...alignReturns(a, b))));
+};
+
+// --- SCENARIOS ---
+// A trade the user is considering. Scenarios layer these over the real transactions without changing them.
+// `currency` is the base currency when the trade was entered; trades saved before it existed are in USD.
+type HypotheticalTrade = { id: string; ticker: string; type: 'buy' | 'sell'; quantity: number; price: number; currency?: string };
+
+// Hypothetical trades are dated today so they replay after every real transaction.
+const applyScenario = (transactions: Transaction[], trades: HypotheticalTrade[]): Transaction[] => {
+    const today = new Date().toISOString().slice(0, 10);
+    return [
+        ...transactions,
+        ...trades.map(t => ({ ticker: t.ticker, buy_date: today, quantity: t.quantity, price: t.price, transaction_type: t.type, currency: t.currency })),
+    ];
+};
+
+// effectiveHoldings is the inverse Herfindahl index: four equal positions give 4, one dominant position approaches 1.
+const concentration = (positions: Position[]) => {
+    const sorted = [...positions].sort((a, b) => b.weight - a.weight);
+    const herfindahl = positions.reduce((sum, p) => sum + p.weight ** 2, 0);
+    return {
+        largest: sorted[0] ?? null,
+        top3Weight: sorted.slice(0, 3).reduce((sum, p) => sum + p.weight, 0),
+        effectiveHoldings: herfindahl ? 1 / herfindahl : 0,
+    };
+};
+
+// Cash the trades would use (negative) or free up (positive).
+const scenarioCashFlow = (trades: HypotheticalTrade[]) =>
+    trades.reduce((sum, t) => sum + (t.type === 'sell' ? 1 : -1) * t.quantity * t.price, 0);
+
+// --- CHAT ---
+// Unlike /analyze nothing is required here, so users can ask questions before fetching everything.
+const buildChatContext = (input: {
+    portfolioName: string;
+    transactions: Transaction[] | null;
+    sentimentJournal: SentimentEntry[];
+    stockData: StockData[] | null;
+    news: NewsHeadline[] | null;
+    lotMethod: LotMethod;
+    // Positions are valued from these; the history and metrics keep their own currencies.
+    inBase: BaseCurrencyData;
+    run: AnalysisRun | null;
+}): ChatContext => ({
+    portfolio_name: input.portfolioName,
+    lot_method: input.lotMethod,
+    base_currency: input.inBase.currency,
+    positions: buildPositions(computeLots(input.inBase.transactions ?? [], input.lotMethod).openLots, input.inBase.stockData).map(p => ({
+        ticker: p.ticker, shares: p.shares, average_cost: p.averageCost, last_close: p.lastClose, market_value: p.marketValue, weight: p.weight,
+    })),
+    transaction_history: transactionHistory(input.transactions ?? []),
+    sentiment_history: sentimentHistory(input.sentimentJournal),
+    current_metrics: currentMetrics(input.stockData ?? []),
+    news_summaries: newsSummaries(input.news ?? []),
+    market_news: marketNews(input.news ?? []),
+    analysis_run: input.run && { id: input.run.id, created_at: input.run.createdAt, recommendations: input.run.recommendations },
+});
+
+// Backends without a chat model answer 404 or 501; the local responder stands in for them.
+const isChatUnavailable = (err: unknown) => err instanceof ApiError && (err.status === 404 || err.status === 501);
+
+// --- EXPORTS ---
+const SESSION_EXPORT_FORMAT = 'andre-session';
+
+// Everything stored for one portfolio, in a file that can be imported again as a new portfolio.
+type SessionExport = {
+    format: typeof SESSION_EXPORT_FORMAT;
+    exportedAt: string;
+    portfolio: PortfolioRecord;
+    analysisRuns: AnalysisRun[];
+    conversations: Conversation[];
+    scenario: HypotheticalTrade[];
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// e.g. "my-portfolio-holdings-2024-05-01.csv"
+const exportFilename = (portfolioName: string, kind: string, extension: string) => {
+    const slug = portfolioName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'portfolio';
+    return `${slug}-${kind}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const roundTo = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Amounts are in `currency`, the base currency the positions were built in.
+const holdingsCsv = (positions: Position[], currency: string) => toCsv([
+    ['ticker', 'shares', 'average_cost', 'cost_basis', 'last_close', 'market_value', 'unrealized_pnl', 'weight', 'currency'],
+    ...positions.map(p => [
+        p.ticker,
+        p.shares,
+        roundTo(p.averageCost, 4),
+        roundTo(p.costBasis, 2),
+        p.lastClose ?? '',
+        p.marketValue === null ? '' : roundTo(p.marketValue, 2),
+        p.unrealizedPnl === null ? '' : roundTo(p.unrealizedPnl, 2),
+        roundTo(p.weight, 4),
+        currency,
+    ]),
+]);
+
+// Held for more than a year counts as long term, which is what a US tax return asks for.
+const holdingTerm = (gain: RealizedGain) => {
+    const anniversary = new Date(gain.openDate);
+    anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+    return gain.closeDate > anniversary.toISOString().slice(0, 10) ? 'long' : 'short';
+};
+
+const realizedGainsCsv = (realized: RealizedGain[], currency: string) => toCsv([
+    ['ticker', 'lot_id', 'open_date', 'close_date', 'quantity', 'proceeds', 'cost_basis', 'gain', 'term', 'currency'],
+    ...realized.map(r => [
+        r.ticker, r.lotId, r.openDate, r.closeDate, r.quantity, roundTo(r.proceeds, 2), roundTo(r.costBasis, 2), roundTo(r.gain, 2), holdingTerm(r), currency,
+    ]),
+]);
+
+// Shape checks for imported sessions: a hand-edited or damaged file must not reach IndexedDB, where every
+// page would trip over it later. Only the fields the app reads are checked; ids are reassigned on import.
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isArrayOf = <T,>(value: unknown, check: (item: unknown) => item is T): value is T[] => Array.isArray(value) && value.every(check);
+const orNull = <T,>(check: (item: unknown) => item is T) => (value: unknown): value is T | null => value === null || check(value);
+
+const isTransaction = (v: unknown): v is Transaction =>
+    isObject(v) && isString(v.ticker) && isString(v.buy_date) && isNumber(v.quantity) && isNumber(v.price);
+const isRecommendation = (v: unknown): v is Recommendation =>
+    isObject(v) && isString(v.ticker) && isString(v.recommendation) && isString(v.confidence) && isString(v.reasoning);
+const isSentimentEntry = (v: unknown): v is SentimentEntry =>
+    isObject(v) && isString(v.id) && isString(v.createdAt) && isString(v.text) && isString(v.score) && isArrayOf(v.tickers, isString);
+const isStockData = (v: unknown): v is StockData =>
+    isObject(v) && isString(v.ticker) && isNumber(v.pe_ratio) && isNumber(v.eps)
+    && isArrayOf(v.price_history, (p): p is StockData['price_history'][number] => isObject(p) && isString(p.date) && isNumber(p.close));
+const isNewsHeadline = (v: unknown): v is NewsHeadline => isObject(v) && isString(v.source) && isString(v.title) && isString(v.link);
+
+// Any schema version: migratePortfolio upgrades what passes.
+const isStoredPortfolio = (v: unknown): v is StoredPortfolioRecord => {
+    if (!isObject(v) || !isString(v.id) || !isString(v.name) || !isNumber(v.schemaVersion) || !isString(v.updatedAt) || !isObject(v.data)) return false;
+    const { data } = v;
+    return orNull(t => isArrayOf(t, isTransaction))(data.transactions)
+        && (v.schemaVersion < 2 ? isString(data.sentiment) : isArrayOf(data.sentimentJournal, isSentimentEntry))
+        && orNull(d => isArrayOf(d, isStockData))(data.stockData)
+        && orNull(n => isArrayOf(n, isNewsHeadline))(data.news)
+        && orNull(a => isArrayOf(a, isRecommendation))(data.analysis);
+};
+
+const isAnalyzeRequest = (v: unknown): v is AnalyzeRequest =>
+    isObject(v) && isString(v.sentiment)
+    && isArrayOf(v.current_metrics, (m): m is AnalyzeRequest['current_metrics'][number] => isObject(m) && isString(m.ticker) && isNumber(m.pe_ratio) && isNumber(m.eps)
+        && (m.currency === undefined || isString(m.currency)))
+    && isArrayOf(v.open_lots, (l): l is AnalyzeRequest['open_lots'][number] => isObject(l) && isString(l.ticker) && isNumber(l.quantity)
+        && (l.currency === undefined || isString(l.currency)))
+    && isArrayOf(v.news_summaries, (n): n is AnalyzeRequest['news_summaries'][number] => isObject(n) && isString(n.ticker) && isString(n.headline));
+
+const isAnalysisRun = (v: unknown): v is AnalysisRun =>
+    isObject(v) && isString(v.id) && isString(v.createdAt) && isString(v.sentimentWindow)
+    && isAnalyzeRequest(v.input) && isArrayOf(v.recommendations, isRecommendation);
+
+const isConversation = (v: unknown): v is Conversation =>
+    isObject(v) && isString(v.id) && (v.runId === null || isString(v.runId)) && isString(v.updatedAt)
+    && isArrayOf(v.messages, (m): m is ChatEntry =>
+        isObject(m) && isString(m.id) && isString(m.createdAt) && (m.role === 'user' || m.role === 'assistant') && isString(m.content));
+
+const isHypotheticalTrade = (v: unknown): v is HypotheticalTrade =>
+    isObject(v) && isString(v.id) && isString(v.ticker) && (v.type === 'buy' || v.type === 'sell')
+    && isNumber(v.quantity) && isNumber(v.price) && (v.currency === undefined || isString(v.currency));
+
+const parseSessionExport = (text: string): SessionExport => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+    if (!isObject(parsed) || parsed.format !== SESSION_EXPORT_FORMAT || !isObject(parsed.portfolio)) {
+        throw new Error('This file is not an Andre session export.');
+    }
+    const { portfolio, analysisRuns = [], conversations = [], scenario = [] } = parsed;
+    if (isNumber(portfolio.schemaVersion) && portfolio.schemaVersion > PORTFOLIO_SCHEMA_VERSION) {
+        throw new Error('This export was made by a newer version of Andre.');
+    }
+    const malformed = (what: string) => new Error(`This session export has malformed ${what}.`);
+    if (!isStoredPortfolio(portfolio)) throw malformed('portfolio data');
+    if (!isArrayOf(analysisRuns, isAnalysisRun)) throw malformed('analysis runs');
+    if (!isArrayOf(conversations, isConversation)) throw malformed('conversations');
+    if (!isArrayOf(scenario, isHypotheticalTrade)) throw malformed('scenario trades');
+    return {
+        format: SESSION_EXPORT_FORMAT,
+        exportedAt: isString(parsed.exportedAt) ? parsed.exportedAt : '',
+        portfolio: migratePortfolio(portfolio),
+        analysisRuns,
+        conversations,
+        scenario,
+    };
+};
+
+// --- ALERTS ---
+type AlertKind = 'price-above' | 'price-below' | 'daily-move' | 'pe-above' | 'recommendation-change';
+
+// `threshold` is a price, a percentage or a P/E depending on the kind; recommendation rules ignore it.
+// An empty ticker on a recommendation rule means every held ticker.
+type AlertRule = {
+    id: string;
+    kind: AlertKind;
+    ticker: string;
+    threshold: number;
+    enabled: boolean;
+    createdAt: string;
+};
+
+type AlertEvent = {
+    id: string;
+    ruleId: string;
+    ticker: string;
+    message: string;
+    triggeredAt: string;
+    // Identifies what triggered the alert, so the same close or change is only reported once.
+    key: string;
+};
+
+type AlertSettings = { pollMinutes: number; browserNotifications: boolean };
+
+// Last seen recommendation per ticker, per portfolio; changes are measured against these.
+type RecommendationBaselines = Record<string, Record<string, string>>;
+
+const ALERT_KINDS: { kind: AlertKind; label: string; thresholdLabel: string | null }[] = [
+    { kind: 'price-above', label: 'Price crosses above', thresholdLabel: 'Price' },
+    { kind: 'price-below', label: 'Price crosses below', thresholdLabel: 'Price' },
+    { kind: 'daily-move', label: 'Daily move beyond', thresholdLabel: 'Percent' },
+    { kind: 'pe-above', label: 'P/E above', thresholdLabel: 'P/E' },
+    { kind: 'recommendation-change', label: 'Recommendation changes', thresholdLabel: null },
+];
+
+const ALERT_POLL_OPTIONS = [0, 5, 15, 60];
+const DEFAULT_ALERT_SETTINGS: AlertSettings = { pollMinutes: 15, browserNotifications: false };
+const ALERT_HISTORY_LIMIT = 100;
+// Background analysis uses the same sentiment window the analysis page defaults to.
+const ALERT_SENTIMENT_WINDOW: SentimentWindow = '7d';
+
+type TriggeredAlert = Pick<AlertEvent, 'ruleId' | 'ticker' | 'message' | 'key'>;
+
+// Price thresholds are in the ticker's quote currency, which is USD until its market data has been fetched.
+const describeAlertRule = (rule: AlertRule, stockData: StockData[] | null) => {
+    const ticker = rule.ticker || 'Any holding';
+    const stock = stockData?.find(s => s.ticker === rule.ticker);
+    const currency = stock ? quoteCurrency(stock) : DEFAULT_CURRENCY;
+    switch (rule.kind) {
+        case 'price-above': return `${ticker} closes above ${formatMoney(rule.threshold, currency)}`;
+        case 'price-below': return `${ticker} closes below ${formatMoney(rule.threshold, currency)}`;
+        case 'daily-move': return `${ticker} moves more than ${rule.threshold}% in a day`;
+        case 'pe-above': return `${ticker} P/E above ${rule.threshold}`;
+        case 'recommendation-change': return `${ticker}: recommendation changes`;
+    }
+};
+
+// Price rules look at the last two closes, so a crossing is reported once for the day it happened
+// no matter how often the data is fetched.
+const evaluatePriceAlerts = (rules: AlertRule[], stockData: StockData[]): TriggeredAlert[] =>
+    rules.flatMap(rule => {
+        const stock = stockData.find(s => s.ticker === rule.ticker);
+        if (!rule.enabled || rule.kind === 'recommendation-change' || !stock) return [];
+        const history = sortedHistory(stock);
+        const latest = history[history.length - 1];
+        const previous = history[history.length - 2];
+        if (!latest) return [];
+        const alert = (message: string) => [{ ruleId: rule.id, ticker: rule.ticker, message, key: `${rule.id}:${latest.date}` }];
+        if (rule.kind === 'pe-above') {
+            return stock.pe_ratio > rule.threshold ? alert(`${rule.ticker} P/E is ${stock.pe_ratio.toFixed(1)}, above ${rule.threshold}`) : [];
+        }
+        if (!previous) return [];
+        if (rule.kind === 'price-above' && previous.value < rule.threshold && latest.value >= rule.threshold) {
+            return alert(`${rule.ticker} closed at ${formatMoney(latest.value, quoteCurrency(stock))} on ${latest.date}, above ${formatMoney(rule.threshold, quoteCurrency(stock))}`);
+        }
+        if (rule.kind === 'price-below' && previous.value > rule.threshold && latest.value <= rule.threshold) {
+            return alert(`${rule.ticker} closed at ${formatMoney(latest.value, quoteCurrency(stock))} on ${latest.date}, below ${formatMoney(rule.threshold, quoteCurrency(stock))}`);
+        }
+        const move = latest.value / previous.value - 1;
+        if (rule.kind === 'daily-move' && previous.value > 0 && Math.abs(move) * 100 >= rule.threshold) {
+            return alert(`${rule.ticker} moved ${move >= 0 ? '+' : ''}${formatPercent(move)} on ${latest.date}`);
+        }
+        return [];
+    });
+
+// Tickers seen for the first time only set a baseline; an alert needs a previous recommendation to differ from.
+// Like price alerts, a change is keyed by the day it was seen, so re-checking the same results reports it once.
+const evaluateRecommendationAlerts = (
+    rules: AlertRule[],
+    baseline: Record<string, string>,
+    recommendations: Recommendation[],
+    heldTickers: string[],
+): TriggeredAlert[] =>
+    rules.flatMap(rule => {
+        if (!rule.enabled || rule.kind !== 'recommendation-change') return [];
+        return recommendations
+            .filter(rec => (rule.ticker ? rec.ticker === rule.ticker : heldTickers.includes(rec.ticker)))
+            .filter(rec => baseline[rec.ticker] && baseline[rec.ticker].toLowerCase() !== rec.recommendation.toLowerCase())
+            .map(rec => ({
+                ruleId: rule.id,
+                ticker: rec.ticker,
+                message: `Recommendation for ${rec.ticker} changed from ${baseline[rec.ticker]} to ${rec.recommendation} (${rec.confidence} confidence)`,
+                key: `${rule.id}:${rec.ticker}:${baseline[rec.ticker]}->${rec.recommendation}:${new Date().toISOString().slice(0, 10)}`,
+            }));
+    });
+
+const updateBaseline = (baseline: Record<string, string>, recommendations: Recommendation[]) =>
+    ({ ...baseline, ...Object.fromEntries(recommendations.map(rec => [rec.ticker, rec.recommendation])) });
+
+// --- ROUTING ---
+type RouteParams = Record<string, string>;
+
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+// "/ticker/BRK.B?tab=news" -> ['ticker', 'BRK.B']; query strings are not part of the route.
+const pathSegments = (path: string) => path.split('?')[0].split('/').filter(Boolean).map(decodeSegment);
+
+// Matches patterns like "/ticker/:symbol", returning the named parameters, or null if the path doesn't fit.
+const matchPath = (pattern: string, path: string): RouteParams | null => {
+    const [patternParts, pathParts] = [pathSegments(pattern), pathSegments(path)];
+    if (patternParts.length !== pathParts.length) return null;
+    const params: RouteParams = {};
+    for (const [i, part] of patternParts.entries()) {
+        if (part.startsWith(':')) params[part.slice(1)] = pathParts[i];
+        else if (part !== pathParts[i]) return null;
+    }
+    return params;
+};
+
+const tickerPath = (symbol: string) => `/ticker/${encodeURIComponent(symbol)}`;
+const analysisRunPath = (runId: string) => `/analysis/${encodeURIComponent(runId)}`;
+
+type OnboardingStepId = 'upload' | 'sentiment' | 'market-data' | 'news' | 'analysis';
+type OnboardingData = Pick<AppContextType, 'transactions' | 'sentimentJournal' | 'stockData' | 'news' | 'analysis'>;
+
+// The order a new user goes through; `action` completes "To open X, ... first."
+const ONBOARDING_STEPS: { id: OnboardingStepId; label: string; action: string; path: string; isDone: (data: OnboardingData) => boolean }[] = [
+    { id: 'upload', label: 'Upload', action: 'upload your transactions', path: '/upload', isDone: data => data.transactions !== null },
+    { id: 'sentiment', label: 'Sentiment', action: 'log your sentiment', path: '/sentiment', isDone: data => data.sentimentJournal.length > 0 },
+    { id: 'market-data', label: 'Market Data', action: 'fetch market data', path: '/market-data', isDone: data => data.stockData !== null },
+    { id: 'news', label: 'News', action: 'fetch news', path: '/market-data', isDone: data => data.news !== null },
+    { id: 'analysis', label: 'Analysis', action: 'run an analysis', path: '/analysis', isDone: data => data.analysis !== null },
+];
+
+// The first of `required` that isn't done yet, which is where a route guard sends the user.
+const missingStep = (required: OnboardingStepId[], data: OnboardingData) =>
+    ONBOARDING_STEPS.find(step => required.includes(step.id) && !step.isDone(data)) ?? null;
+
+// --- HELPER & UI COMPONENTS ---
+const Spinner: FC = () => (
+    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-400"></div>
+);
+
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+// In the browser's locale, with the currency's own symbol and decimals (e.g. $1,234.56, 1.234,56 € or ¥1,235).
+const formatMoney = (value: number, currency: string) => {
+    if (!moneyFormats.has(currency)) moneyFormats.set(currency, new Intl.NumberFormat(undefined, { style: 'currency', currency }));
+    return moneyFormats.get(currency)!.format(value);
+};
+
+// Share counts, in the same locale as the money beside them; fractional shares keep up to four decimals.
+const quantityFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 4 });
+const formatQuantity = (value: number) => quantityFormat.format(value);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const pnlClass = (value: number | null) => (value === null ? 'text-gray-500' : value >= 0 ? 'text-green-400' : 'text-red-400');
+
+const CHART_COLORS = ['#22d3ee', '#818cf8', '#f472b6', '#facc15', '#4ade80', '#fb923c', '#a78bfa', '#2dd4bf', '#f87171', '#94a3b8'];
+
+const Card: FC<PropsWithChildren<{ className?: string }>> = ({ children, className = '' }) => (
+    <div className={`bg-gray-800 shadow-lg rounded-xl p-6 ${className}`}>
+        {children}
+    </div>
+);
+
+const BaseCurrencySelect: FC = () => {
+    const { baseCurrency, setBaseCurrency } = useAppContext();
+    const options = BASE_CURRENCIES.includes(baseCurrency) ? BASE_CURRENCIES : [baseCurrency, ...BASE_CURRENCIES];
+    return (
+        <div className="flex items-center space-x-2">
+            <label htmlFor="base-currency" className="text-sm text-gray-300">Base currency</label>
+            <select id="base-currency" value={baseCurrency} onChange={e => setBaseCurrency(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm">
+                {options.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+        </div>
+    );
+};
+
+// Shown while rates load, or when they could not be loaded, for amounts left in their own currency.
+const FxNotice: FC<{ missing: string[] }> = ({ missing }) => {
+    const { fxError } = useAppContext();
+    if (missing.length === 0) return null;
+    return (
+        <p className="text-yellow-400 text-sm">
+            {fxError ? `Could not load exchange rates: ${fxError}` : 'Loading exchange rates…'} Amounts in {missing.join(', ')} are not converted yet.
+        </p>
+    );
+};
+
+// Data fetched longer ago than this, or shown while offline, is labelled with when it arrived.
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+const StaleBadge: FC<{ data: keyof FetchTimes }> = ({ data }) => {
+    const { fetchedAt } = useAppContext();
+    const isOnline = useOnlineStatus();
+    const at = fetchedAt[data];
+    if (!at || (isOnline && Date.now() - Date.parse(at) < STALE_AFTER_MS)) return null;
+    return (
+        <span className="py-0.5 px-2 text-xs rounded-full bg-yellow-500/20 text-yellow-300 font-semibold">
+            Stale as of <time dateTime={at}>{new Date(at).toLocaleString()}</time>
+        </span>
+    );
+};
+
+// --- CHARTS ---
+type ChartPoint = { date: string; value: number };
+type ChartSeries = { label: string; color: string; points: ChartPoint[] };
+type ChartMarker = { date: string; value: number; label: string };
+type ChartRange = '1M' | '6M' | '1Y' | 'ALL';
+
+const CHART_RANGES: { range: ChartRange; months: number | null }[] = [
+    { range: '1M', months: 1 },
+    { range: '6M', months: 6 },
+    { range: '1Y', months: 12 },
+    { range: 'ALL', months: null },
+];
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = { top: 12, right: 12, bottom: 24, left: 64 };
+
+const sortedHistory = (stock: StockData): ChartPoint[] =>
+    [...stock.price_history].sort((a, b) => a.date.localeCompare(b.date)).map(p => ({ date: p.date, value: p.close }));
+
+// Ranges are measured back from the last data point, not from today, so stale data still charts.
+const filterRange = <T extends ChartPoint>(points: T[], range: ChartRange): T[] => {
+    const months = CHART_RANGES.find(r => r.range === range)?.months;
+    if (!months || points.length === 0) return points;
+    const cutoff = new Date(points[points.length - 1].date);
+    cutoff.setMonth(cutoff.getMonth() - months);
+    const cutoffDate = cutoff.toISOString().slice(0, 10);
+    return points.filter(p => p.date >= cutoffDate);
+};
+
+// Rebases a series to its percentage change since the first point, for comparing tickers on one axis.
+const normalizeSeries = (points: ChartPoint[]): ChartPoint[] => {
+    const base = points[0]?.value;
+    return base ? points.map(p => ({ date: p.date, value: p.value / base - 1 })) : [];
+};
+
+const nearestPoint = (points: ChartPoint[], time: number) =>
+    points.reduce<ChartPoint | null>((best, p) =>
+        !best || Math.abs(Date.parse(p.date) - time) < Math.abs(Date.parse(best.date) - time) ? p : best, null);
+
+const PriceChart: FC<{
+    series: ChartSeries[];
+    markers?: ChartMarker[];
+    area?: boolean;
+    formatValue: (value: number) => string;
+}> = ({ series, markers = [], area = false, formatValue }) => {
+    const [hoverTime, setHoverTime] = useState<number | null>(null);
+    const allPoints = series.flatMap(s => s.points);
+    if (allPoints.length < 2) return <p className="text-gray-400 text-sm">Not enough data to chart yet.</p>;
+
+    const times = allPoints.map(p => Date.parse(p.date));
+    const values = [...allPoints.map(p => p.value), ...markers.map(m => m.value)];
+    const [minTime, maxTime] = [Math.min(...times), Math.max(...times)];
+    let [minValue, maxValue] = [Math.min(...values), Math.max(...values)];
+    if (minValue === maxValue) [minValue, maxValue] = [minValue - 1, maxValue + 1];
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+    const x = (date: string) => CHART_PADDING.left + ((Date.parse(date) - minTime) / (maxTime - minTime || 1)) * plotWidth;
+    const y = (value: number) => CHART_PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+    const baseline = CHART_PADDING.top + plotHeight;
+    const yTicks = [0, 1, 2, 3].map(i => minValue + ((maxValue - minValue) * i) / 3);
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * CHART_WIDTH;
+        const ratio = Math.min(Math.max((svgX - CHART_PADDING.left) / plotWidth, 0), 1);
+        setHoverTime(minTime + ratio * (maxTime - minTime));
+    };
+
+    const hovered = hoverTime === null ? [] : series
+        .map(s => ({ series: s, point: nearestPoint(s.points, hoverTime) }))
+        .filter((h): h is { series: ChartSeries; point: ChartPoint } => h.point !== null);
+    const hoverDate = hovered[0]?.point.date;
+
+    return (
+        <div className="relative">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" onMouseMove={handleMouseMove} onMouseLeave={() => setHoverTime(null)}>
+                {yTicks.map(tick => (
+                    <g key={tick}>
+                        <line x1={CHART_PADDING.left} x2={CHART_WIDTH - CHART_PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#374151" strokeDasharray="2 4" />
+                        <text x={CHART_PADDING.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" fill="#9ca3af" fontSize="10">{formatValue(tick)}</text>
+                    </g>
+                ))}
+                <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} fill="#9ca3af" fontSize="10">{new Date(minTime).toISOString().slice(0, 10)}</text>
+                <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" fill="#9ca3af" fontSize="10">{new Date(maxTime).toISOString().slice(0, 10)}</text>
+                {series.map(s => {
+                    if (s.points.length === 0) return null;
+                    const line = s.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ');
+                    return (
+                        <g key={s.label}>
+                            {area && (
+                                <path d={`${line} L${x(s.points[s.points.length - 1].date).toFixed(1)},${baseline} L${x(s.points[0].date).toFixed(1)},${baseline} Z`} fill={s.color} fillOpacity={0.15} />
+                            )}
+                            <path d={line} fill="none" stroke={s.color} strokeWidth={1.5} />
+                        </g>
+                    );
+                })}
+                {markers.map((m, i) => (
+                    <g key={i}>
+                        <circle cx={x(m.date)} cy={y(m.value)} r={4} fill="#4ade80" stroke="#111827" strokeWidth={1.5}>
+                            <title>{m.label}</title>
+                        </circle>
+                    </g>
+                ))}
+                {hoverDate && (
+                    <g pointerEvents="none">
+                        <line x1={x(hoverDate)} x2={x(hoverDate)} y1={CHART_PADDING.top} y2={baseline} stroke="#9ca3af" strokeWidth={1} />
+                        {hovered.map(h => <circle key={h.series.label} cx={x(h.point.date)} cy={y(h.point.value)} r={3} fill={h.series.color} />)}
+                    </g>
+                )}
+            </svg>
+            {hoverDate && (
+                <div className="absolute top-0 pointer-events-none bg-gray-900/90 border border-gray-700 rounded-md px-2 py-1 text-xs" style={{ left: `${(x(hoverDate) / CHART_WIDTH) * 100}%`, transform: x(hoverDate) > CHART_WIDTH / 2 ? 'translateX(-105%)' : 'translateX(5%)' }}>
+                    <p className="text-gray-400">{hoverDate}</p>
+                    {hovered.map(h => (
+                        <p key={h.series.label} style={{ color: h.series.color }}>{series.length > 1 && `${h.series.label}: `}{formatValue(h.point.value)}</p>
+                    ))}
+                    {markers.filter(m => m.date === hoverDate).map((m, i) => <p key={i} className="text-green-400">{m.label}</p>)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Buy markers for one ticker, limited to the charted date range and to buys in the chart's currency.
+const buyMarkers = (transactions: Transaction[] | null, ticker: string, points: ChartPoint[], currency: string): ChartMarker[] => {
+    if (!transactions || points.length === 0) return [];
+    const [first, last] = [points[0].date, points[points.length - 1].date];
+    return transactions
+        .filter(tx => tx.ticker === ticker && transactionType(tx) === 'buy' && transactionCurrency(tx) === currency && tx.buy_date >= first && tx.buy_date <= last)
+        .map(tx => ({ date: tx.buy_date, value: tx.price, label: `Bought ${tx.quantity} @ ${formatMoney(tx.price, currency)}` }));
+};
+
+const PriceHistoryCard: FC<{ stockData: StockData[] }> = ({ stockData }) => {
+    const { transactions } = useAppContext();
+    const [range, setRange] = useState<ChartRange>('6M');
+    const [area, setArea] = useState(false);
+    const [compare, setCompare] = useState(false);
+
+    const series = stockData.map((stock, i) => ({
+        label: stock.ticker,
+        color: CHART_COLORS[i % CHART_COLORS.length],
+        points: filterRange(sortedHistory(stock), range),
+        currency: quoteCurrency(stock),
+    }));
+
+    const toggleClass = (active: boolean) =>
+        `py-1 px-3 text-sm rounded-md font-semibold ${active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+    return (
+        <Card>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-white">Price History</h3>
+                <div className="flex flex-wrap gap-2">
+                    {CHART_RANGES.map(r => (
+                        <button key={r.range} type="button" onClick={() => setRange(r.range)} className={toggleClass(range === r.range)}>{r.range}</button>
+                    ))}
+                    <button type="button" onClick={() => setArea(!area)} className={toggleClass(area)}>Area</button>
+                    <button type="button" onClick={() => setCompare(!compare)} disabled={stockData.length < 2} className={`${toggleClass(compare)} disabled:opacity-50`}>Compare</button>
+                </div>
+            </div>
+            {compare ? (
+                <>
+                    <p className="text-gray-400 text-sm mb-2">Change since the start of the range</p>
+                    <PriceChart series={series.map(s => ({ ...s, points: normalizeSeries(s.points) }))} area={area} formatValue={formatPercent} />
+                    <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                        {series.map(s => <span key={s.label} style={{ color: s.color }}>■ {s.label}</span>)}
+                    </div>
+                </>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {series.map(s => (
+                        <div key={s.label}>
+                            <h4 className="font-bold text-cyan-400 mb-2">{s.label}</h4>
+                            <PriceChart series={[s]} markers={buyMarkers(transactions, s.label, s.points, s.currency)} area={area} formatValue={value => formatMoney(value, s.currency)} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+};
+
+// --- PAGE COMPONENTS ---
+// Upload → sentiment → market data → news → analysis, with each step linked; hidden once all are done.
+// `current` is the step the page belongs to; pages outside the sequence highlight the next step to do.
+const StepProgress: FC<{ current?: OnboardingStepId }> = ({ current }) => {
+    const { transactions, sentimentJournal, stockData, news, analysis, navigate } = useAppContext();
+    const data = { transactions, sentimentJournal, stockData, news, analysis };
+    const next = ONBOARDING_STEPS.find(step => !step.isDone(data));
+    if (!next) return null;
+    const highlighted = current ?? next.id;
+
+    return (
+        <nav aria-label="Setup progress" className="space-y-2">
+            <ol className="flex flex-wrap items-center gap-2 text-sm">
+                {ONBOARDING_STEPS.map((step, i) => {
+                    const done = step.isDone(data);
+                    return (
+                        <li key={step.id} className="flex items-center">
+                            {i > 0 && <span className="text-gray-600 mr-2" aria-hidden="true">→</span>}
+                            <button type="button" onClick={() => navigate(step.path)} aria-current={step.id === highlighted ? 'step' : undefined} className={`flex items-center space-x-1 py-1 px-3 rounded-full font-semibold ${step.id === highlighted ? 'bg-cyan-600 text-white' : done ? 'bg-gray-700 text-green-400 hover:bg-gray-600' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}>
+                                <span aria-hidden="true">{done ? '✓' : i + 1}</span>
+                                <span>{step.label}</span>
+                                {done && <span className="sr-only">(done)</span>}
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+            {next.id !== current && (
+                <p className="text-sm text-gray-400">
+                    Next:{' '}
+                    <button type="button" onClick={() => navigate(next.path)} className="text-cyan-400 underline hover:text-cyan-300">{next.action}</button>
+                </p>
+            )}
+        </nav>
+    );
+};
+
+const ColumnMappingStep: FC<{
+    headers: string[];
+    mapping: ColumnMapping;
+    onChange: (mapping: ColumnMapping) => void;
+}> = ({ headers, mapping, onChange }) => {
+    const [presets, setPresets] = useState<ImportPreset[]>(loadCustomPresets);
+    const [presetName, setPresetName] = useState('');
+    const allPresets = [...BROKER_PRESETS, ...presets];
+
+    const handlePresetChange = (id: string) => {
+        const preset = allPresets.find(p => p.id === id);
+        if (preset) onChange(applyPreset(headers, preset));
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        const next = [...presets.filter(p => p.name !== name), { id: `custom-${Date.now()}`, name, mapping }];
+        saveCustomPresets(next);
+        setPresets(next);
+        setPresetName('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label htmlFor="import-preset" className="block text-sm font-medium text-gray-300">Broker preset</label>
+                <select id="import-preset" defaultValue="" onChange={e => handlePresetChange(e.target.value)} className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                    <option value="" disabled>Choose a preset…</option>
+                    {allPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                {TRANSACTION_FIELDS.map(({ field, label, optional }) => (
+                    <div key={field}>
+                        <label htmlFor={`map-${field}`} className="block text-sm font-medium text-gray-300">{label}{optional && <span className="text-gray-500"> (optional)</span>}</label>
+                        <select id={`map-${field}`} value={mapping[field]} onChange={e => onChange({ ...mapping, [field]: e.target.value })} className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                            <option value="">— not mapped —</option>
+                            {headers.map(header => <option key={header} value={header}>{header}</option>)}
+                        </select>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-end space-x-2">
+                <div className="flex-grow">
+                    <label htmlFor="preset-name" className="block text-sm font-medium text-gray-300">Save this mapping as a preset</label>
+                    <input id="preset-name" type="text" value={presetName} onChange={e => setPresetName(e.target.value)} placeholder="e.g., My broker" className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400"/>
+                </div>
+                <button type="button" onClick={handleSavePreset} disabled={!presetName.trim()} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold disabled:opacity-50 h-10">Save</button>
+            </div>
+        </div>
+    );
+};
+
+const ImportReviewStep: FC<{
+    rows: ImportRow[];
+    onChange: (rows: ImportRow[]) => void;
+}> = ({ rows, onChange }) => {
+    const rowErrors = rows.map(row => validateImportRow(row.values));
+    const rowWarnings = rows.map(row => importRowWarnings(row.values));
+    const warningCount = rowWarnings.filter(warnings => Object.keys(warnings).length > 0).length;
+    const invalidCount = rowErrors.filter(errors => Object.keys(errors).length > 0).length;
+
+    const updateCell = (id: number, field: TransactionField, value: string) => {
+        onChange(rows.map(row => row.id === id ? { ...row, values: { ...row.values, [field]: value } } : row));
+    };
+
+    const dropRow = (id: number) => onChange(rows.filter(row => row.id !== id));
+
+    const dropInvalidRows = () => onChange(rows.filter((_, i) => Object.keys(rowErrors[i]).length === 0));
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center">
+                <p className="text-gray-300 text-sm">
+                    {rows.length} rows, <span className={invalidCount ? 'text-red-400' : 'text-green-400'}>{invalidCount} with errors</span>
+                    {warningCount > 0 && <>, <span className="text-yellow-400">{warningCount} with unknown tickers</span></>}
+                </p>
+                {invalidCount > 0 && (
+                    <button type="button" onClick={dropInvalidRows} className="py-1 px-3 text-sm bg-red-600 hover:bg-red-700 rounded-md text-white font-semibold">
+                        Drop all invalid rows
+                    </button>
+                )}
+            </div>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="min-w-full text-sm text-left text-gray-300">
+                    <thead className="bg-gray-700 text-xs text-gray-200 uppercase sticky top-0">
+                        <tr>
+                            <th scope="col" className="px-3 py-2">Line</th>
+                            {TRANSACTION_FIELDS.map(({ field, label }) => <th key={field} scope="col" className="px-3 py-2">{label}</th>)}
+                            <th scope="col" className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, i) => (
+                            <tr key={row.id} className="bg-gray-800 border-b border-gray-700 align-top">
+                                <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                                {TRANSACTION_FIELDS.map(({ field }) => (
+                                    <td key={field} className="px-3 py-2">
+                                        <input type="text" value={row.values[field]} onChange={e => updateCell(row.id, field, e.target.value)} aria-invalid={!!rowErrors[i][field]} className={`w-full bg-gray-700 border rounded-md p-1 text-white ${rowErrors[i][field] ? 'border-red-500' : 'border-gray-600'}`}/>
+                                        {rowErrors[i][field]
+                                            ? <p className="text-red-400 text-xs mt-1">{rowErrors[i][field]}</p>
+                                            : rowWarnings[i][field] && <p className="text-yellow-400 text-xs mt-1">{rowWarnings[i][field]}</p>}
+                                    </td>
+                                ))}
+                                <td className="px-3 py-2">
+                                    <button type="button" onClick={() => dropRow(row.id)} className="text-gray-400 hover:text-red-400" aria-label={`Drop line ${row.line}`}>✕</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const LoginPage: FC = () => {
+    const { login, signup } = useAppContext();
+    const [mode, setMode] = useState<'login' | 'signup'>('login');
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        try {
+            if (mode === 'login') await login({ email, password });
+            else await signup({ name, email, password });
+        } catch (err: any) {
+            setError(err.message || 'An unexpected error occurred.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const switchMode = (next: 'login' | 'signup') => {
+        setMode(next);
+        setError('');
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
+            <h1 className="text-5xl font-bold text-white mb-2">Andre</h1>
+            <p className="text-xl text-gray-400 mb-8">Your Best Smart Wall Street BFF</p>
+            <Card className="w-full max-w-md">
+                <div className="flex mb-6 bg-gray-700 rounded-md p-1">
+                    <button type="button" onClick={() => switchMode('login')} className={`flex-1 py-2 rounded-md text-sm font-semibold ${mode === 'login' ? 'bg-cyan-600 text-white' : 'text-gray-300'}`}>Log In</button>
+                    <button type="button" onClick={() => switchMode('signup')} className={`flex-1 py-2 rounded-md text-sm font-semibold ${mode === 'signup' ? 'bg-cyan-600 text-white' : 'text-gray-300'}`}>Sign Up</button>
+                </div>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {mode === 'signup' && (
+                        <div>
+                            <label htmlFor="auth-name" className="block text-sm font-medium text-gray-300">Name</label>
+                            <input id="auth-name" type="text" required value={name} onChange={e => setName(e.target.value)} autoComplete="name" className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white"/>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="auth-email" className="block text-sm font-medium text-gray-300">Email</label>
+                        <input id="auth-email" type="email" required value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white"/>
+                    </div>
+                    <div>
+                        <label htmlFor="auth-password" className="block text-sm font-medium text-gray-300">Password</label>
+                        <input id="auth-password" type="password" required minLength={mode === 'signup' ? 8 : undefined} value={password} onChange={e => setPassword(e.target.value)} autoComplete={mode === 'login' ? 'current-password' : 'new-password'} className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white"/>
+                    </div>
+                    {error && <p className="text-red-400 text-sm">{error}</p>}
+                    <button type="submit" disabled={isLoading} className="w-full flex justify-center py-2 px-4 rounded-md text-sm font-medium text-white bg-cyan-600 hover:bg-cyan-700 disabled:opacity-50">
+                        {isLoading ? <Spinner /> : mode === 'login' ? 'Log In' : 'Create Account'}
+                    </button>
+                </form>
+            </Card>
+        </div>
+    );
+};
+
+const UploadPage: FC = () => {
+    const { transactions: existingTransactions, setTransactions, navigate, portfolios, activePortfolioId, importSession } = useAppContext();
+    const getSignal = usePageSignal();
+    const portfolioName = portfolios.find(p => p.id === activePortfolioId)?.name;
+    const [file, setFile] = useState<File | null>(null);
+    const [step, setStep] = useState<'select' | 'map' | 'review'>('select');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping>({ transaction_type: '', ticker: '', buy_date: '', quantity: '', price: '', lot_id: '', currency: '', exchange: '' });
+    const [importRows, setImportRows] = useState<ImportRow[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) {
+            setFile(e.target.files[0]);
+            setError('');
+        }
+    };
+
+    const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const sessionFile = e.target.files?.[0];
+        e.target.value = '';
+        if (!sessionFile) return;
+        setError('');
+        try {
+            await importSession(parseSessionExport(await sessionFile.text()));
+        } catch (err: any) {
+            setError(err.message || 'Could not restore the selected file.');
+        }
+    };
+
+    const handleParse = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file) {
+            setError('Please select a CSV file to upload.');
+            return;
+        }
+        setError('');
+        try {
+            const [headerRow, ...rows] = parseCsv(await file.text());
+            if (!headerRow || rows.length === 0) throw new Error('The selected file has no transaction rows.');
+            const fileHeaders = headerRow.map(h => h.trim());
+            const preset = detectPreset(fileHeaders, [...BROKER_PRESETS, ...loadCustomPresets()]);
+            setHeaders(fileHeaders);
+            setDataRows(rows);
+            setMapping(preset ? applyPreset(fileHeaders, preset) : guessMapping(fileHeaders));
+            setStep('map');
+        } catch (err: any) {
+            setError(err.message || 'Could not read the selected file.');
+        }
+    };
+
+    const handleMappingDone = () => {
+        const unmapped = TRANSACTION_FIELDS.filter(({ field, optional }) => !optional && !mapping[field]);
+        if (unmapped.length) {
+            setError(`Please map a column for: ${unmapped.map(f => f.label).join(', ')}.`);
+            return;
+        }
+        setError('');
+        setImportRows(buildImportRows(dataRows, headers, mapping));
+        setStep('review');
+    };
+
+    const hasInvalidRows = importRows.some(row => Object.keys(validateImportRow(row.values)).length > 0);
+
+    const handleSubmit = async () => {
+        if (importRows.length === 0 || hasInvalidRows) return;
+        setIsLoading(true);
+        setError('');
+        const transactions = importRows.map(row => toTransaction(row.values));
+        // The backend receives the cleaned rows in its own column layout, whatever the broker export looked like.
+        const csv = toCsv([
+            TRANSACTION_FIELDS.map(f => f.field),
+            ...transactions.map(tx => TRANSACTION_FIELDS.map(f => tx[f.field] ?? '')),
+        ]);
+
+        try {
+            await api.uploadTransactions(new File([csv], file?.name || 'transactions.csv', { type: 'text/csv' }), getSignal());
+            setTransactions(transactions);
+            navigate('/dashboard');
+        } catch (err: any) {
+            if (isAbortError(err)) return;
+            setError(err.message || 'An unexpected error occurred.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4">
+            <h1 className="text-5xl font-bold text-white mb-2">Andre</h1>
+            <p className="text-xl text-gray-400 mb-2">Your Best Smart Wall Street BFF</p>
+            <p className="text-sm text-gray-500 mb-8">
+                Importing into <span className="text-gray-300 font-semibold">{portfolioName}</span>
+                {existingTransactions && (
+                    <>
+                        {' · '}
+                        <button type="button" onClick={() => navigate('/dashboard')} className="text-cyan-400 hover:underline">Back to dashboard</button>
+                    </>
+                )}
+            </p>
+            {step === 'select' && (
+                <Card className="w-full max-w-md">
+                    <h2 className="text-2xl font-semibold text-white mb-4 text-center">Link to Your Account</h2>
+                    <p className="text-gray-400 mb-6 text-center">Upload your transaction history CSV to get started.</p>
+                    <form onSubmit={handleParse} className="space-y-6">
+                        <div>
+                            <label htmlFor="file-upload" className="block text-sm font-medium text-gray-300">CSV File</label>
+                            <input id="file-upload" name="file-upload" type="file" accept=".csv" onChange={handleFileChange} className="mt-1 block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-cyan-500 file:text-white hover:file:bg-cyan-600"/>
+                        </div>
+                        {error && <p className="text-red-400 text-sm">{error}</p>}
+                        <button type="submit" className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-cyan-600 hover:bg-cyan-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-cyan-500">
+                            Continue
+                        </button>
+                    </form>
+                    <p className="text-gray-400 text-sm text-center mt-6">
+                        Have a session export?{' '}
+                        <label htmlFor="session-restore" className="text-cyan-400 hover:underline cursor-pointer">Restore it as a new portfolio</label>
+                        <input id="session-restore" type="file" accept=".json,application/json" onChange={handleRestore} className="sr-only" />
+                    </p>
+                </Card>
+            )}
+            {step === 'map' && (
+                <Card className="w-full max-w-xl">
+                    <h2 className="text-2xl font-semibold text-white mb-4 text-center">Map Your Columns</h2>
+                    <p className="text-gray-400 mb-6 text-center">Tell us which columns of <span className="text-white">{file?.name}</span> hold each field.</p>
+                    <ColumnMappingStep headers={headers} mapping={mapping} onChange={setMapping} />
+                    {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+                    <div className="flex justify-between mt-6">
+                        <button type="button" onClick={() => { setStep('select'); setError(''); }} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold">Back</button>
+                        <button type="button" onClick={handleMappingDone} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold">Review Rows</button>
+                    </div>
+                </Card>
+            )}
+            {step === 'review' && (
+                <Card className="w-full max-w-4xl">
+                    <h2 className="text-2xl font-semibold text-white mb-4 text-center">Review Transactions</h2>
+                    <p className="text-gray-400 mb-6 text-center">Fix or drop any rows with errors before uploading.</p>
+                    <ImportReviewStep rows={importRows} onChange={setImportRows} />
+                    {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+                    <div className="flex justify-between mt-6">
+                        <button type="button" onClick={() => { setStep('map'); setError(''); }} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold">Back</button>
+                        <button type="button" onClick={handleSubmit} disabled={isLoading || importRows.length === 0 || hasInvalidRows} className="flex justify-center py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">
+                            {isLoading ? <Spinner /> : 'Upload & Analyze'}
+                        </button>
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+const CostBasisCard: FC<{ transactions: Transaction[]; currency: string }> = ({ transactions, currency }) => {
+    const { lotMethod, setLotMethod } = useAppContext();
+    const ledger = computeLots(transactions, lotMethod);
+    const totalRealized = ledger.realized.reduce((sum, r) => sum + r.gain, 0);
+
+    return (
+        <Card>
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-white">Cost Basis</h2>
+                <div className="flex items-center space-x-2">
+                    <label htmlFor="lot-method" className="text-sm text-gray-300">Method</label>
+                    <select id="lot-method" value={lotMethod} onChange={e => setLotMethod(e.target.value as LotMethod)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm">
+                        {LOT_METHODS.map(m => <option key={m.method} value={m.method}>{m.label}</option>)}
+                    </select>
+                </div>
+            </div>
+            {ledger.warnings.map((warning, i) => <p key={i} className="text-yellow-400 text-sm mb-2">{warning}</p>)}
+            <div className="grid grid-cols-3 gap-4 mb-6 text-sm">
+                <p className="text-gray-400">Realized gains: <span className={totalRealized >= 0 ? 'text-green-400' : 'text-red-400'}>{formatMoney(totalRealized, currency)}</span></p>
+                <p className="text-gray-400">Dividends: <span className="text-white">{formatMoney(ledger.dividends, currency)}</span></p>
+                <p className="text-gray-400">Fees: <span className="text-white">{formatMoney(ledger.fees, currency)}</span></p>
+            </div>
+            <h3 className="text-lg font-semibold text-white mb-2">Open Lots</h3>
+            <div className="overflow-x-auto mb-6">
+                <table className="min-w-full text-sm text-left text-gray-300">
+                    <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Lot</th>
+                            <th scope="col" className="px-6 py-3">Ticker</th>
+                            <th scope="col" className="px-6 py-3">Opened</th>
+                            <th scope="col" className="px-6 py-3">Shares</th>
+                            <th scope="col" className="px-6 py-3">Cost / Share</th>
+                            <th scope="col" className="px-6 py-3">Cost Basis</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ledger.openLots.map(lot => (
+                            <tr key={lot.id} className="bg-gray-800 border-b border-gray-700">
+                                <td className="px-6 py-4 text-gray-400">{lot.id}</td>
+                                <td className="px-6 py-4 font-medium text-white">{lot.ticker}</td>
+                                <td className="px-6 py-4">{lot.openDate}</td>
+                                <td className="px-6 py-4">{lot.quantity}</td>
+                                <td className="px-6 py-4">{formatMoney(lot.costPerShare, currency)}</td>
+                                <td className="px-6 py-4">{formatMoney((lot.quantity * lot.costPerShare), currency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {ledger.realized.length > 0 && (
+                <>
+                    <h3 className="text-lg font-semibold text-white mb-2">Realized Gains</h3>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm text-left text-gray-300">
+                            <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                                <tr>
+                                    <th scope="col" className="px-6 py-3">Ticker</th>
+                                    <th scope="col" className="px-6 py-3">Opened</th>
+                                    <th scope="col" className="px-6 py-3">Closed</th>
+                                    <th scope="col" className="px-6 py-3">Shares</th>
+                                    <th scope="col" className="px-6 py-3">Proceeds</th>
+                                    <th scope="col" className="px-6 py-3">Cost Basis</th>
+                                    <th scope="col" className="px-6 py-3">Gain</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ledger.realized.map((r, index) => (
+                                    <tr key={index} className="bg-gray-800 border-b border-gray-700">
+                                        <td className="px-6 py-4 font-medium text-white">{r.ticker}</td>
+                                        <td className="px-6 py-4">{r.openDate}</td>
+                                        <td className="px-6 py-4">{r.closeDate}</td>
+                                        <td className="px-6 py-4">{r.quantity}</td>
+                                        <td className="px-6 py-4">{formatMoney(r.proceeds, currency)}</td>
+                                        <td className="px-6 py-4">{formatMoney(r.costBasis, currency)}</td>
+                                        <td className={`px-6 py-4 ${r.gain >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatMoney(r.gain, currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </Card>
+    );
+};
+
+type PositionSortKey = 'ticker' | 'shares' | 'averageCost' | 'lastClose' | 'marketValue' | 'unrealizedPnl' | 'weight';
+
+const POSITION_COLUMNS: { key: PositionSortKey; label: string }[] = [
+    { key: 'ticker', label: 'Ticker' },
+    { key: 'shares', label: 'Shares' },
+    { key: 'averageCost', label: 'Avg Cost' },
+    { key: 'lastClose', label: 'Last Close' },
+    { key: 'marketValue', label: 'Market Value' },
+    { key: 'unrealizedPnl', label: 'Unrealized P&L' },
+    { key: 'weight', label: 'Weight' },
+];
+
+const HoldingsCard: FC<{ positions: Position[]; currency: string }> = ({ positions, currency }) => {
+    const { navigate } = useAppContext();
+    const [sort, setSort] = useState<{ key: PositionSortKey; descending: boolean }>({ key: 'weight', descending: true });
+
+    const handleSort = (key: PositionSortKey) => {
+        setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'ticker' }));
+    };
+
+    // Unpriced positions always sort last, whichever direction is selected.
+    const sorted = [...positions].sort((a, b) => {
+        const [x, y] = [a[sort.key], b[sort.key]];
+        if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+        const order = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+        return sort.descending ? -order : order;
+    });
+
+    return (
+        <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">Holdings</h2>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-sm text-left text-gray-300">
+                    <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                        <tr>
+                            {POSITION_COLUMNS.map(col => (
+                                <th key={col.key} scope="col" className="px-6 py-3" aria-sort={sort.key === col.key ? (sort.descending ? 'descending' : 'ascending') : 'none'}>
+                                    <button type="button" onClick={() => handleSort(col.key)} className="uppercase hover:text-white">
+                                        {col.label}{sort.key === col.key && (sort.descending ? ' ▼' : ' ▲')}
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sorted.map(p => (
+                            <tr key={p.ticker} className="bg-gray-800 border-b border-gray-700">
+                                <td className="px-6 py-4 font-medium text-white">
+                                    <button type="button" onClick={() => navigate(tickerPath(p.ticker))} className="hover:text-cyan-400 hover:underline">{p.ticker}</button>
+                                </td>
+                                <td className="px-6 py-4">{formatQuantity(p.shares)}</td>
+                                <td className="px-6 py-4">{formatMoney(p.averageCost, currency)}</td>
+                                <td className="px-6 py-4">{p.lastClose === null ? '—' : formatMoney(p.lastClose, currency)}</td>
+                                <td className="px-6 py-4">{p.marketValue === null ? '—' : formatMoney(p.marketValue, currency)}</td>
+                                <td className={`px-6 py-4 ${pnlClass(p.unrealizedPnl)}`}>
+                                    {p.unrealizedPnl === null ? '—' : `${formatMoney(p.unrealizedPnl, currency)}${p.unrealizedPct === null ? '' : ` (${formatPercent(p.unrealizedPct)})`}`}
+                                </td>
+                                <td className="px-6 py-4">{formatPercent(p.weight)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </Card>
+    );
+};
+
+const AllocationCard: FC<{ positions: Position[]; title?: string }> = ({ positions, title = 'Allocation' }) => {
+    const sorted = [...positions].sort((a, b) => b.weight - a.weight);
+    return (
+        <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">{title}</h2>
+            <div className="flex h-4 rounded-full overflow-hidden mb-4" role="img" aria-label="Portfolio allocation by ticker">
+                {sorted.map((p, i) => (
+                    <div key={p.ticker} style={{ width: `${p.weight * 100}%`, backgroundColor: CHART_COLORS[i % CHART_COLORS.length] }} title={`${p.ticker}: ${formatPercent(p.weight)}`}></div>
+                ))}
+            </div>
+            <ul className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                {sorted.map((p, i) => (
+                    <li key={p.ticker} className="flex items-center space-x-2">
+                        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: CHART_COLORS[i % CHART_COLORS.length] }}></span>
+                        <span className="text-white font-medium">{p.ticker}</span>
+                        <span className="text-gray-400">{formatPercent(p.weight)}</span>
+                    </li>
+                ))}
+            </ul>
+        </Card>
+    );
+};
+
+const PortfolioSummary: FC<{ positions: Position[]; realizedGain: number; currency: string }> = ({ positions, realizedGain, currency }) => {
+    const priced = positions.filter(p => p.marketValue !== null);
+    const marketValue = priced.reduce((sum, p) => sum + p.marketValue!, 0);
+    const pricedCost = priced.reduce((sum, p) => sum + p.costBasis, 0);
+    const unrealized = marketValue - pricedCost;
+    const totalCost = positions.reduce((sum, p) => sum + p.costBasis, 0);
+    const stats = [
+        { label: 'Market Value', value: priced.length ? formatMoney(marketValue, currency) : '—', className: 'text-white' },
+        { label: 'Cost Basis', value: formatMoney(totalCost, currency), className: 'text-white' },
+        {
+            label: 'Unrealized P&L',
+            value: priced.length ? `${formatMoney(unrealized, currency)}${pricedCost ? ` (${formatPercent(unrealized / pricedCost)})` : ''}` : '—',
+            className: priced.length ? pnlClass(unrealized) : 'text-gray-500',
+        },
+        { label: 'Realized P&L', value: formatMoney(realizedGain, currency), className: pnlClass(realizedGain) },
+    ];
+    return (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {stats.map(stat => (
+                <Card key={stat.label} className="!p-4">
+                    <p className="text-sm text-gray-400">{stat.label}</p>
+                    <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+                </Card>
+            ))}
+        </div>
+    );
+};
+
+const HoldingsNewsCard: FC<{ tickers: string[] }> = ({ tickers }) => {
+    const { news, navigate } = useAppContext();
+    const [selected, setSelected] = useState(tickers[0]);
+    const stories = news ? groupNewsStories(news) : [];
+    const active = tickers.includes(selected) ? selected : tickers[0];
+    const tickerStories = stories.filter(story => story.tickers.includes(active));
+
+    return (
+        <Card>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-xl font-semibold text-white">News for Your Holdings</h2>
+                <StaleBadge data="news" />
+            </div>
+            <div className="flex flex-wrap gap-2 mb-4" role="tablist">
+                {tickers.map(ticker => {
+                    const count = stories.filter(story => story.tickers.includes(ticker)).length;
+                    return (
+                        <button key={ticker} type="button" role="tab" aria-selected={ticker === active} onClick={() => setSelected(ticker)} className={`py-1 px-3 text-sm rounded-md font-semibold ${ticker === active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+                            {ticker} <span className="text-xs opacity-75">{count}</span>
+                        </button>
+                    );
+                })}
+            </div>
+            {tickerStories.length > 0 ? (
+                <ul className="space-y-2">
+                    {tickerStories.map(story => <StoryItem key={story.id} story={story} />)}
+                </ul>
+            ) : (
+                <p className="text-gray-400 text-sm">
+                    No news loaded for {active}.{' '}
+                    <button type="button" onClick={() => navigate('/market-data')} className="text-cyan-400 underline hover:text-cyan-300">Fetch news</button> to see what's moving it.
+                </p>
+            )}
+        </Card>
+    );
+};
+
+const ExportCard: FC<{ positions: Position[]; realized: RealizedGain[]; currency: string }> = ({ positions, realized, currency }) => {
+    const { portfolios, activePortfolioId, transactions, sentimentJournal, stockData, news, analysis, lotMethod, baseCurrency, fetchedAt, navigate } = useAppContext();
+    const [error, setError] = useState('');
+    const name = portfolios.find(p => p.id === activePortfolioId)?.name ?? 'Portfolio';
+
+    const exportSession = async () => {
+        if (!activePortfolioId) return;
+        setError('');
+        try {
+            const [analysisRuns, conversations, scenario] = await Promise.all([
+                storage.getAllByIndex<AnalysisRun>('analysisRuns', 'portfolioId', activePortfolioId),
+                storage.getAllByIndex<Conversation>('conversations', 'portfolioId', activePortfolioId),
+                storage.get<HypotheticalTrade[]>('settings', `scenario:${activePortfolioId}`),
+            ]);
+            const dump: SessionExport = {
+                format: SESSION_EXPORT_FORMAT,
+                exportedAt: new Date().toISOString(),
+                portfolio: {
+                    id: activePortfolioId,
+                    name,
+                    schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+                    updatedAt: new Date().toISOString(),
+                    data: { transactions, sentimentJournal, stockData, news, analysis, lotMethod, baseCurrency, fetchedAt },
+                },
+                analysisRuns,
+                conversations,
+                scenario: scenario ?? [],
+            };
+            downloadFile(exportFilename(name, 'session', 'json'), JSON.stringify(dump, null, 2), 'application/json');
+        } catch (err: any) {
+            setError(err.message || 'Could not export the session');
+        }
+    };
+
+    const buttonClass = 'py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold text-sm disabled:opacity-50';
+    return (
+        <Card>
+            <h2 className="text-xl font-semibold text-white mb-2">Export</h2>
+            <p className="text-gray-400 text-sm mb-4">Download your data to share or keep for tax season. A session file can be restored from the upload page.</p>
+            <div className="flex flex-wrap gap-2">
+                <button type="button" onClick={() => downloadFile(exportFilename(name, 'holdings', 'csv'), holdingsCsv(positions, currency), 'text/csv')} disabled={positions.length === 0} className={buttonClass}>Holdings CSV</button>
+                <button type="button" onClick={() => downloadFile(exportFilename(name, 'realized-gains', 'csv'), realizedGainsCsv(realized, currency), 'text/csv')} disabled={realized.length === 0} className={buttonClass}>Realized Gains CSV</button>
+                <button type="button" onClick={exportSession} className={buttonClass}>Session JSON</button>
+                <button type="button" onClick={() => navigate('/report')} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold text-sm">Printable Report</button>
+            </div>
+            {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+        </Card>
+    );
+};
+
+const DashboardPage: FC = () => {
+    const { transactions, lotMethod, navigate } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    // The route guard sends users without transactions to /upload.
+    if (!transactions || !inBase.transactions) return null;
+
+    const { currency } = inBase;
+    const ledger = computeLots(inBase.transactions, lotMethod);
+    const positions = buildPositions(ledger.openLots, inBase.stockData);
+    const realizedGain = ledger.realized.reduce((sum, r) => sum + r.gain, 0);
+    const unpriced = positions.filter(p => p.lastClose === null).map(p => p.ticker);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <h1 className="text-3xl font-bold text-white">Dashboard</h1>
+                <div className="flex flex-wrap items-center gap-4">
+                    <StaleBadge data="stockData" />
+                    <BaseCurrencySelect />
+                </div>
+            </div>
+            <StepProgress />
+            <FxNotice missing={inBase.missing} />
+            <PortfolioSummary positions={positions} realizedGain={realizedGain} currency={currency} />
+            {unpriced.length > 0 && (
+                <p className="text-yellow-400 text-sm">
+                    No price data for {unpriced.join(', ')}.{' '}
+                    <button type="button" onClick={() => navigate('/market-data')} className="underline hover:text-yellow-300">Fetch market data</button> to see live P&L.
+                </p>
+            )}
+            {positions.length > 0 && <HoldingsCard positions={positions} currency={currency} />}
+            {positions.length > 0 && <AllocationCard positions={positions} />}
+            {positions.length > 0 && <HoldingsNewsCard tickers={positions.map(p => p.ticker).sort()} />}
+            <CostBasisCard transactions={inBase.transactions} currency={currency} />
+            <ExportCard positions={positions} realized={ledger.realized} currency={currency} />
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Transaction Preview</h2>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm text-left text-gray-300">
+                        <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Type</th>
+                                <th scope="col" className="px-6 py-3">Ticker</th>
+                                <th scope="col" className="px-6 py-3">Date</th>
+                                <th scope="col" className="px-6 py-3">Quantity</th>
+                                <th scope="col" className="px-6 py-3">Price</th>
+                                <th scope="col" className="px-6 py-3">Exchange</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {transactions.map((tx, index) => (
+                                <tr key={index} className="bg-gray-800 border-b border-gray-700">
+                                    <td className="px-6 py-4 capitalize">{transactionType(tx)}</td>
+                                    <td className="px-6 py-4 font-medium text-white">{tx.ticker}</td>
+                                    <td className="px-6 py-4">{tx.buy_date}</td>
+                                    <td className="px-6 py-4">{tx.quantity}</td>
+                                    <td className="px-6 py-4">{formatMoney(tx.price, transactionCurrency(tx))}</td>
+                                    <td className="px-6 py-4">{tx.exchange ?? '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+const SentimentTrendCard: FC<{ journal: SentimentEntry[] }> = ({ journal }) => {
+    const { transactions, stockData, currency } = useBaseCurrencyData();
+    const sentimentPoints = dailySentimentSeries(journal);
+    const firstDay = sentimentPoints[0]?.date;
+    const valuePoints = transactions && stockData && firstDay
+        ? portfolioValueSeries(transactions, stockData).filter(p => p.date >= firstDay)
+        : [];
+    const formatSentiment = (value: number) => (value > 0.33 ? 'Bullish' : value < -0.33 ? 'Bearish' : 'Neutral');
+
+    return (
+        <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">Sentiment Trend</h2>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Your sentiment</h3>
+                    <PriceChart series={[{ label: 'Sentiment', color: '#22d3ee', points: sentimentPoints }]} formatValue={formatSentiment} />
+                </div>
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Portfolio value</h3>
+                    {valuePoints.length > 0
+                        ? <PriceChart series={[{ label: 'Portfolio value', color: '#818cf8', points: valuePoints }]} area formatValue={value => formatMoney(value, currency)} />
+                        : <p className="text-gray-400 text-sm">Upload transactions and fetch market data to compare against your portfolio value.</p>}
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+interface TickerPickerProps {
+    id: string;
+    label: string;
+    tickers: string[];
+    onChange: (tickers: string[]) => void;
+    holdings?: string[];
+}
+
+const TickerPicker: FC<TickerPickerProps> = ({ id, label, tickers, onChange, holdings = [] }) => {
+    const [query, setQuery] = useState('');
+    const [highlighted, setHighlighted] = useState(-1);
+    const [isOpen, setIsOpen] = useState(false);
+    const [error, setError] = useState('');
+
+    const suggestions = isOpen ? searchSymbols(query, tickers) : [];
+    // Name-only matches aren't preselected, so Enter on an unlisted symbol adds it as typed.
+    const defaultHighlight = (text: string) => (searchSymbols(text, tickers)[0]?.symbol.startsWith(normalizeTicker(text)) ? 0 : -1);
+    const unknown = tickers.filter(t => !isKnownSymbol(t) && !holdings.includes(t));
+
+    const addTickers = (text: string) => {
+        const parsed = parseTickerList(text);
+        const invalid = parsed.filter(t => !TICKER_PATTERN.test(t));
+        const valid = parsed.filter(t => TICKER_PATTERN.test(t) && !tickers.includes(t));
+        if (valid.length > 0) onChange([...tickers, ...valid]);
+        setError(invalid.length > 0 ? `Not a valid ticker: ${invalid.join(', ')}` : '');
+        setQuery('');
+        setHighlighted(-1);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            if (suggestions.length === 0) return;
+            e.preventDefault();
+            const count = suggestions.length;
+            setHighlighted(prev => (e.key === 'ArrowDown' ? (prev + 1) % count : prev <= 0 ? count - 1 : prev - 1));
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            if (!query.trim()) return;
+            e.preventDefault();
+            addTickers(suggestions[highlighted]?.symbol ?? query);
+        } else if (e.key === ',') {
+            e.preventDefault();
+            addTickers(query);
+        } else if (e.key === 'Backspace' && !query && tickers.length > 0) {
+            onChange(tickers.slice(0, -1));
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+        }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+        const text = e.clipboardData.getData('text');
+        if (!/[\s,;]/.test(text.trim())) return;
+        e.preventDefault();
+        addTickers(text);
+    };
+
+    return (
+        <div className="relative">
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+            <div className="mt-1 flex flex-wrap items-center gap-1 bg-gray-700 border border-gray-600 rounded-md p-1 focus-within:ring-2 focus-within:ring-cyan-500">
+                {tickers.map(ticker => {
+                    const isUnknown = unknown.includes(ticker);
+                    return (
+                        <span key={ticker} title={isUnknown ? 'Not in the symbol list, check the spelling' : undefined} className={`flex items-center py-0.5 pl-2 pr-1 text-sm rounded-full ${isUnknown ? 'bg-yellow-900 text-yellow-300' : 'bg-gray-800 text-cyan-300'}`}>
+                            {ticker}
+                            <button type="button" onClick={() => onChange(tickers.filter(t => t !== ticker))} className="ml-1 px-1 text-gray-400 hover:text-red-400" aria-label={`Remove ${ticker}`}>✕</button>
+                        </span>
+                    );
+                })}
+                <input
+                    id={id}
+                    type="text"
+                    role="combobox"
+                    aria-expanded={suggestions.length > 0}
+                    aria-controls={`${id}-suggestions`}
+                    aria-autocomplete="list"
+                    value={query}
+                    onChange={e => { setQuery(e.target.value); setHighlighted(defaultHighlight(e.target.value)); setIsOpen(true); }}
+                    onKeyDown={handleKeyDown}
+                    onPaste={handlePaste}
+                    onFocus={() => setIsOpen(true)}
+                    onBlur={() => setIsOpen(false)}
+                    placeholder={tickers.length === 0 ? 'Type a symbol or company name' : ''}
+                    className="flex-grow min-w-[8rem] bg-transparent p-1 text-white placeholder-gray-400 focus:outline-none"
+                />
+            </div>
+            {suggestions.length > 0 && (
+                <ul id={`${id}-suggestions`} role="listbox" className="absolute z-10 mt-1 w-full bg-gray-800 border border-gray-600 rounded-md shadow-lg text-sm">
+                    {suggestions.map((s, i) => (
+                        <li
+                            key={s.symbol}
+                            role="option"
+                            aria-selected={i === highlighted}
+                            onMouseDown={e => { e.preventDefault(); addTickers(s.symbol); }}
+                            onMouseEnter={() => setHighlighted(i)}
+                            className={`px-3 py-2 cursor-pointer ${i === highlighted ? 'bg-gray-700' : ''}`}
+                        >
+                            <span className="font-semibold text-white">{s.symbol}</span> <span className="text-gray-400">{s.name}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+            {unknown.length > 0 && <p className="text-yellow-400 text-sm mt-1">Unrecognized: {unknown.join(', ')}. Double-check the spelling.</p>}
+        </div>
+    );
+};
+
+const WatchlistBar: FC<{ tickers: string[]; onLoad: (tickers: string[]) => void }> = ({ tickers, onLoad }) => {
+    const [watchlists, setWatchlists] = useStoredSetting<Watchlist[]>('watchlists', []);
+    const [selectedId, setSelectedId] = useState('');
+    const selected = watchlists.find(w => w.id === selectedId);
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        const list = watchlists.find(w => w.id === id);
+        if (list) onLoad(list.tickers);
+    };
+
+    const handleSave = () => {
+        const name = window.prompt('Save these tickers as a watchlist named:', selected?.name ?? '')?.trim();
+        if (!name) return;
+        const existing = watchlists.find(w => w.name.toLowerCase() === name.toLowerCase());
+        if (existing && existing.id !== selectedId && !window.confirm(`Replace the tickers in watchlist "${existing.name}"?`)) return;
+        const list: Watchlist = { id: existing?.id ?? createId(), name, tickers };
+        setWatchlists(existing ? watchlists.map(w => (w.id === existing.id ? list : w)) : [...watchlists, list]);
+        setSelectedId(list.id);
+    };
+
+    const handleDelete = () => {
+        if (!selected || !window.confirm(`Delete watchlist "${selected.name}"?`)) return;
+        setWatchlists(watchlists.filter(w => w.id !== selected.id));
+        setSelectedId('');
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={selectedId} onChange={e => handleSelect(e.target.value)} aria-label="Watchlist" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                <option value="">{watchlists.length > 0 ? 'Load a watchlist…' : 'No saved watchlists'}</option>
+                {watchlists.map(w => <option key={w.id} value={w.id}>{w.name} ({w.tickers.length})</option>)}
+            </select>
+            <button type="button" onClick={handleSave} disabled={tickers.length === 0} className="py-2 px-3 bg-gray-600 hover:bg-gray-500 rounded-md text-white disabled:opacity-50">Save as Watchlist</button>
+            {selected && <button type="button" onClick={handleDelete} className="py-2 px-3 bg-gray-600 hover:bg-red-700 rounded-md text-white">Delete</button>}
+        </div>
+    );
+};
+
+const SentimentPage: FC = () => {
+    const { sentimentJournal, setSentimentJournal, transactions, lotMethod, activePortfolioId } = useAppContext();
+    const user = useCurrentUser();
+    const getSignal = usePageSignal();
+    const [input, setInput] = useState('');
+    const [score, setScore] = useState<SentimentScore>('neutral');
+    const [tickers, setTickers] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        setMessage('');
+        const payload: SentimentRequest = { user_id: user.id, sentiment: input, score, tickers };
+        try {
+            const data = await api.submitSentiment(payload, getSignal());
+            const entry: SentimentEntry = { id: createId(), createdAt: new Date().toISOString(), text: data.sentiment, score, tickers };
+            setSentimentJournal([entry, ...sentimentJournal]);
+            setMessage(`Sentiment captured: "${data.sentiment}"`);
+            setInput('');
+            setTickers([]);
+        } catch (err: any) {
+            if (isAbortError(err)) return;
+            // Unreachable or unresponsive backend: keep the entry and let SentimentOutboxRelay send it later.
+            if (err instanceof ApiError && (err.kind === 'network' || err.kind === 'timeout') && activePortfolioId) {
+                const entry: SentimentEntry = { id: createId(), createdAt: new Date().toISOString(), text: input, score, tickers, queued: true };
+                const reason = err.kind === 'timeout' ? 'The server is not responding' : 'You appear to be offline';
+                // Only an entry the outbox holds is shown as queued; anything else would wait to be sent forever.
+                try {
+                    await storage.put('outbox', { id: entry.id, portfolioId: activePortfolioId, createdAt: entry.createdAt, payload } satisfies OutboxItem);
+                } catch (storageErr) {
+                    console.error('Could not queue sentiment entry.', storageErr);
+                    setError(`${reason}, and the entry could not be saved on this device to send later. Please try again.`);
+                    return;
+                }
+                setSentimentJournal([entry, ...sentimentJournal]);
+                setMessage(`${reason}. The entry is saved on this device and will be sent when the server is reachable again.`);
+                setInput('');
+                setTickers([]);
+                return;
+            }
+            setError(err.message || 'Failed to submit sentiment');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const deleteEntry = (id: string) => {
+        setSentimentJournal(sentimentJournal.filter(entry => entry.id !== id));
+        storage.delete('outbox', id).catch(err => console.error('Could not remove queued sentiment entry.', err));
+    };
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-white">What's Up?</h1>
+            <StepProgress current="sentiment" />
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Log Your Daily Sentiment</h2>
+                <p className="text-gray-400 mb-4">How are you feeling about the market today?</p>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input type="text" value={input} onChange={(e) => setInput(e.target.value)} required placeholder="e.g., bullish on tech, worried about inflation" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div role="radiogroup" aria-label="Sentiment" className="flex bg-gray-700 rounded-md p-1">
+                            {SENTIMENT_SCORES.map(s => (
+                                <button key={s.score} type="button" role="radio" aria-checked={score === s.score} onClick={() => setScore(s.score)} className={`py-1 px-3 rounded-md text-sm font-semibold ${score === s.score ? `${s.className} text-white` : 'text-gray-300'}`}>
+                                    {s.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex-grow">
+                            <TickerPicker id="sentiment-tickers" label="Tickers (optional)" tickers={tickers} onChange={setTickers} holdings={holdingTickers(transactions, lotMethod)} />
+                        </div>
+                    </div>
+                    <button type="submit" disabled={isLoading} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">
+                        {isLoading ? <Spinner/> : "Submit"}
+                    </button>
+                </form>
+                {error && <p className="text-red-400 mt-4">{error}</p>}
+                {message && <p className="text-green-400 mt-4">{message}</p>}
+            </Card>
+
+            {sentimentJournal.length > 0 && <SentimentTrendCard journal={sentimentJournal} />}
+
+            {sentimentJournal.length > 0 && (
+                <Card>
+                    <h2 className="text-xl font-semibold text-white mb-4">Journal</h2>
+                    <ol className="relative border-l border-gray-700 ml-2 space-y-6">
+                        {sentimentJournal.map(entry => {
+                            const meta = SENTIMENT_SCORES.find(s => s.score === entry.score)!;
+                            return (
+                                <li key={entry.id} className="ml-4">
+                                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${meta.className}`}></span>
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm text-gray-400">
+                                            <time dateTime={entry.createdAt}>{new Date(entry.createdAt).toLocaleString()}</time>
+                                            {' · '}<span className="font-semibold text-gray-300">{meta.label}</span>
+                                            {entry.queued && <span className="ml-2 py-0.5 px-2 text-xs rounded-full bg-gray-700 text-yellow-300">Waiting to send</span>}
+                                        </p>
+                                        <button type="button" onClick={() => deleteEntry(entry.id)} className="text-gray-500 hover:text-red-400 text-sm" aria-label="Delete entry">✕</button>
+                                    </div>
+                                    <p className="text-white">{entry.text}</p>
+                                    {entry.tickers.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {entry.tickers.map(ticker => <span key={ticker} className="py-0.5 px-2 text-xs rounded-full bg-gray-700 text-cyan-300">{ticker}</span>)}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+const StoryItem: FC<{ story: NewsStory }> = ({ story }) => (
+    <li>
+        <a href={story.link} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">{story.title}</a>
+        <span className="text-gray-400 text-sm">
+            {' ('}
+            {story.sources.map((s, i) => (
+                <React.Fragment key={s.source}>
+                    {i > 0 && ', '}
+                    <a href={s.link} target="_blank" rel="noopener noreferrer" className="hover:underline">{s.source}</a>
+                </React.Fragment>
+            ))}
+            {')'}
+        </span>
+        {story.tickers.map(ticker => <span key={ticker} className="ml-2 py-0.5 px-2 text-xs rounded-full bg-gray-700 text-cyan-300">{ticker}</span>)}
+    </li>
+);
+
+// Filter value for stories that couldn't be matched to any ticker.
+const UNATTRIBUTED = '__none__';
+
+const NewsCard: FC<{ news: NewsHeadline[] }> = ({ news }) => {
+    const [tickerFilter, setTickerFilter] = useState('');
+    const [sourceFilter, setSourceFilter] = useState('');
+    const [groupByTicker, setGroupByTicker] = useState(true);
+
+    const stories = groupNewsStories(news);
+    const tickers = [...new Set(stories.flatMap(s => s.tickers))].sort();
+    const sources = [...new Set(stories.flatMap(s => s.sources.map(src => src.source)))].sort();
+    const filtered = stories.filter(story =>
+        (!tickerFilter || (tickerFilter === UNATTRIBUTED ? story.tickers.length === 0 : story.tickers.includes(tickerFilter)))
+        && (!sourceFilter || story.sources.some(src => src.source === sourceFilter)));
+    const groups = groupByTicker && !tickerFilter
+        ? [...tickers, UNATTRIBUTED]
+            .map(ticker => ({
+                ticker,
+                stories: filtered.filter(s => (ticker === UNATTRIBUTED ? s.tickers.length === 0 : s.tickers.includes(ticker))),
+            }))
+            .filter(group => group.stories.length > 0)
+        : [{ ticker: '', stories: filtered }];
+
+    return (
+        <Card>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="text-lg font-semibold text-white">News Headlines</h3>
+                    <StaleBadge data="news" />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select value={tickerFilter} onChange={e => setTickerFilter(e.target.value)} aria-label="Filter by ticker" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                        <option value="">All tickers</option>
+                        {tickers.map(t => <option key={t} value={t}>{t}</option>)}
+                        <option value={UNATTRIBUTED}>General market</option>
+                    </select>
+                    <select value={sourceFilter} onChange={e => setSourceFilter(e.target.value)} aria-label="Filter by source" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                        <option value="">All sources</option>
+                        {sources.map(src => <option key={src} value={src}>{src}</option>)}
+                    </select>
+                    <label className="flex items-center space-x-1 text-gray-300">
+                        <input type="checkbox" checked={groupByTicker} onChange={e => setGroupByTicker(e.target.checked)} />
+                        <span>Group by ticker</span>
+                    </label>
+                </div>
+            </div>
+            <p className="text-gray-400 text-sm mb-4">{news.length} headlines, {stories.length} unique stories</p>
+            {filtered.length === 0 && <p className="text-gray-400">No headlines match these filters.</p>}
+            <div className="space-y-6">
+                {groups.map(group => (
+                    <div key={group.ticker}>
+                        {group.ticker && <h4 className="font-bold text-cyan-400 mb-2">{group.ticker === UNATTRIBUTED ? 'General market' : group.ticker}</h4>}
+                        <ul className="space-y-2">
+                            {group.stories.map(story => <StoryItem key={story.id} story={story} />)}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </Card>
+    );
+};
+
+const MarketDataPage: FC = () => {
+    const { stockData, setStockData, news, setNews, transactions, lotMethod, navigate } = useAppContext();
+    const getSignal = usePageSignal();
+    const holdings = holdingTickers(transactions, lotMethod);
+    const [tickerList, setTickerList] = useState<string[]>(() => (holdings.length > 0 ? holdings : ['AAPL', 'GOOG', 'MSFT']));
+    const [isLoading, setIsLoading] = useState({ stock: false, news: false });
+    const [error, setError] = useState({ stock: '', news: '' });
+
+    const fetchStockData = async () => {
+        setIsLoading(prev => ({...prev, stock: true}));
+        setError(prev => ({...prev, stock: ''}));
+        try {
+            const data = await api.getStockData(tickerList, getSignal());
+            setStockData(data.data);
+        } catch(err: any) {
+            if (isAbortError(err)) return;
+            setError(prev => ({...prev, stock: err.message || 'Failed to fetch stock data'}));
+        } finally {
+            setIsLoading(prev => ({...prev, stock: false}));
+        }
+    };
+
+    const fetchNews = async () => {
+        setIsLoading(prev => ({...prev, news: true}));
+        setError(prev => ({...prev, news: ''}));
+        try {
+            const data = await api.getNews(tickerList, getSignal());
+            setNews(attributeHeadlines(data.headlines, tickerList));
+        } catch(err: any) {
+            if (isAbortError(err)) return;
+            setError(prev => ({...prev, news: err.message || 'Failed to fetch news'}));
+        } finally {
+            setIsLoading(prev => ({...prev, news: false}));
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <h1 className="text-3xl font-bold text-white">Market Data</h1>
+            <StepProgress current="market-data" />
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Fetch Stock & News Data</h2>
+                <div className="flex items-end space-x-4">
+                    <div className="flex-grow">
+                        <TickerPicker id="tickers" label="Tickers" tickers={tickerList} onChange={setTickerList} holdings={holdings} />
+                    </div>
+                    <button onClick={fetchStockData} disabled={isLoading.stock || tickerList.length === 0} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50 h-10">
+                        {isLoading.stock ? <Spinner/> : "Get Stock Data"}
+                    </button>
+                    <button onClick={fetchNews} disabled={isLoading.news || tickerList.length === 0} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-md text-white font-semibold disabled:opacity-50 h-10">
+                        {isLoading.news ? <Spinner/> : "Get News"}
+                    </button>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 mt-4">
+                    <WatchlistBar tickers={tickerList} onLoad={setTickerList} />
+                    <button type="button" onClick={() => setTickerList(holdings)} disabled={holdings.length === 0} className="py-2 px-3 text-sm bg-gray-600 hover:bg-gray-500 rounded-md text-white disabled:opacity-50">
+                        Use My Holdings
+                    </button>
+                </div>
+            </Card>
+
+            {error.stock && <p className="text-red-400">{error.stock}</p>}
+            {stockData && (
+                <Card>
+                    <h3 className="text-lg font-semibold text-white mb-4">Stock Financials <StaleBadge data="stockData" /></h3>
+                    {stockData.map(stock => (
+                        <div key={stock.ticker} className="mb-4">
+                            <h4 className="font-bold text-cyan-400">
+                                <button type="button" onClick={() => navigate(tickerPath(stock.ticker))} className="hover:underline">{stock.ticker}</button>
+                            </h4>
+                            <p>P/E Ratio: {stock.pe_ratio}</p>
+                            <p>EPS: {formatMoney(stock.eps, quoteCurrency(stock))}</p>
+                            {stock.exchange && <p>Exchange: {stock.exchange}</p>}
+                        </div>
+                    ))}
+                </Card>
+            )}
+            {stockData && <PriceHistoryCard stockData={stockData} />}
+
+            {error.news && <p className="text-red-400">{error.news}</p>}
+            {news && <NewsCard news={news} />}
+        </div>
+    );
+};
+
+const RUN_CHANGE_LABELS: Record<RunChange, { label: string; className: string }> = {
+    flipped: { label: 'Flipped', className: 'text-yellow-300' },
+    confidence: { label: 'Confidence', className: 'text-cyan-300' },
+    added: { label: 'New', className: 'text-green-400' },
+    removed: { label: 'Dropped', className: 'text-red-400' },
+    unchanged: { label: 'Unchanged', className: 'text-gray-400' },
+};
+
+const runLabel = (run: AnalysisRun) => `${new Date(run.createdAt).toLocaleString()} (${run.recommendations.length} tickers)`;
+
+const RecommendationCard: FC<{ rec: Recommendation; input?: AnalyzeRequest }> = ({ rec, input }) => {
+    const inputs = input && tickerInputs(input, rec.ticker);
+    return (
+        <div className="p-4 bg-gray-700 rounded-lg">
+            <h3 className="font-bold text-cyan-400 text-lg">{rec.ticker}: <span className="text-white">{rec.recommendation}</span> <span className="text-sm text-gray-400">({rec.confidence} confidence)</span></h3>
+            <p className="text-gray-300">{rec.reasoning}</p>
+            {inputs && input && (
+                <details className="mt-2 text-sm text-gray-400">
+                    <summary className="cursor-pointer hover:text-gray-200">What this was based on</summary>
+                    <ul className="mt-2 space-y-1 list-disc list-inside">
+                        <li>{inputs.shares > 0 ? `${inputs.shares} shares held` : 'Not currently held'}</li>
+                        {inputs.metric && <li>P/E {inputs.metric.pe_ratio}, EPS {inputs.metric.eps}</li>}
+                        <li>Your sentiment: {input.sentiment || 'none logged'}</li>
+                        {inputs.headlines.map(headline => <li key={headline}>{headline}</li>)}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
+
+const RunDiffTable: FC<{ base: AnalysisRun; next: AnalysisRun }> = ({ base, next }) => {
+    const rows = diffRuns(base, next);
+    return (
+        <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left text-gray-300">
+                <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                    <tr>
+                        <th scope="col" className="px-6 py-3">Ticker</th>
+                        <th scope="col" className="px-6 py-3">Change</th>
+                        <th scope="col" className="px-6 py-3">Recommendation</th>
+                        <th scope="col" className="px-6 py-3">Confidence</th>
+                        <th scope="col" className="px-6 py-3">What changed in the inputs</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => {
+                        const meta = RUN_CHANGE_LABELS[row.change];
+                        const notes = [
+                            row.peBefore !== row.peAfter && `P/E ${row.peBefore ?? '—'} → ${row.peAfter ?? '—'}`,
+                            row.sharesBefore !== row.sharesAfter && `shares ${row.sharesBefore} → ${row.sharesAfter}`,
+                            row.newHeadlines.length > 0 && `${row.newHeadlines.length} new headline${row.newHeadlines.length === 1 ? '' : 's'}`,
+                        ].filter(Boolean);
+                        return (
+                            <tr key={row.ticker} className="bg-gray-800 border-b border-gray-700 align-top">
+                                <td className="px-6 py-4 font-medium text-white">{row.ticker}</td>
+                                <td className={`px-6 py-4 font-semibold ${meta.className}`}>{meta.label}</td>
+                                <td className="px-6 py-4">{row.before?.recommendation ?? '—'} → {row.after?.recommendation ?? '—'}</td>
+                                <td className="px-6 py-4">
+                                    {row.before?.confidence ?? '—'} → {row.after?.confidence ?? '—'}
+                                    {row.confidenceDelta !== 0 && <span className={row.confidenceDelta > 0 ? 'text-green-400' : 'text-red-400'}> {row.confidenceDelta > 0 ? '▲' : '▼'}</span>}
+                                </td>
+                                <td className="px-6 py-4">
+                                    {notes.length > 0 ? notes.join(', ') : <span className="text-gray-500">No input changes</span>}
+                                    {row.newHeadlines.length > 0 && (
+                                        <ul className="mt-1 text-xs text-gray-400 list-disc list-inside">
+                                            {row.newHeadlines.map(h => <li key={h}>{h}</li>)}
+                                        </ul>
+                                    )}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const RunDiffCard: FC<{ runs: AnalysisRun[] }> = ({ runs }) => {
+    // Runs are newest first, so the default compares the previous run with the latest.
+    // The page remounts this card when a new run arrives so the default follows it.
+    const [baseId, setBaseId] = useState(runs[1].id);
+    const [nextId, setNextId] = useState(runs[0].id);
+    const base = runs.find(r => r.id === baseId) ?? runs[1];
+    const next = runs.find(r => r.id === nextId) ?? runs[0];
+    const rows = diffRuns(base, next);
+    const changed = rows.filter(r => r.change !== 'unchanged').length;
+
+    return (
+        <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">Compare Runs</h2>
+            <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+                <select value={base.id} onChange={e => setBaseId(e.target.value)} aria-label="Earlier run" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                    {runs.map(run => <option key={run.id} value={run.id}>{runLabel(run)}</option>)}
+                </select>
+                <span className="text-gray-400">→</span>
+                <select value={next.id} onChange={e => setNextId(e.target.value)} aria-label="Later run" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                    {runs.map(run => <option key={run.id} value={run.id}>{runLabel(run)}</option>)}
+                </select>
+            </div>
+            <p className="text-gray-400 text-sm mb-4">
+                {changed === 0 ? 'No recommendations changed.' : `${changed} of ${rows.length} tickers changed.`}
+                {base.input.sentiment !== next.input.sentiment && <> Your sentiment went from "{base.input.sentiment}" to "{next.input.sentiment}".</>}
+            </p>
+            <RunDiffTable base={base} next={next} />
+        </Card>
+    );
+};
+
+const AskAndreCard: FC<{ run: AnalysisRun | null }> = ({ run }) => {
+    const { activePortfolioId, portfolios, transactions, sentimentJournal, stockData, news, lotMethod } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    const user = useCurrentUser();
+    const getSignal = usePageSignal();
+    const [conversation, setConversation] = useState<Conversation | null>(null);
+    const [input, setInput] = useState('');
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const listRef = useRef<HTMLDivElement>(null);
+    const runId = run?.id ?? null;
+
+    useEffect(() => {
+        if (!activePortfolioId) return;
+        let cancelled = false;
+        setConversation(null);
+        storage.getAllByIndex<Conversation>('conversations', 'portfolioId', activePortfolioId)
+            .then(saved => { if (!cancelled) setConversation(saved.find(c => c.runId === runId) ?? null); })
+            .catch(err => console.error('Failed to load conversation', err));
+        return () => { cancelled = true; };
+    }, [activePortfolioId, runId]);
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [conversation, draft]);
+
+    const save = (next: Conversation) => {
+        setConversation(next);
+        storage.put('conversations', next).catch(err => console.error('Failed to save conversation', err));
+    };
+
+    const ask = async (question: string) => {
+        if (!activePortfolioId || !question.trim() || draft !== null) return;
+        const asked: Conversation = {
+            id: conversation?.id ?? createId(),
+            portfolioId: activePortfolioId,
+            runId,
+            updatedAt: new Date().toISOString(),
+            messages: [...(conversation?.messages ?? []), { id: createId(), createdAt: new Date().toISOString(), role: 'user', content: question.trim() }],
+        };
+        save(asked);
+        setInput('');
+        setError('');
+        setDraft('');
+
+        const payload: ChatRequest = {
+            user_id: user.id,
+            portfolio_id: activePortfolioId,
+            messages: asked.messages.map(({ role, content }) => ({ role, content })),
+            context: buildChatContext({
+                portfolioName: portfolios.find(p => p.id === activePortfolioId)?.name ?? '',
+                transactions, sentimentJournal, stockData, news, lotMethod, inBase, run,
+            }),
+        };
+        try {
+            let local = false;
+            const data = await api.chat(payload, setDraft, getSignal()).catch(err => {
+                if (!isChatUnavailable(err)) throw err;
+                local = true;
+                return answerLocally(payload, setDraft, getSignal());
+            });
+            save({
+                ...asked,
+                updatedAt: new Date().toISOString(),
+                messages: [...asked.messages, { id: createId(), createdAt: new Date().toISOString(), role: 'assistant', content: data.reply, local }],
+            });
+        } catch (err: any) {
+            if (isAbortError(err)) return;
+            setError(err.message || 'Andre could not answer right now');
+        } finally {
+            setDraft(null);
+        }
+    };
+
+    const clear = () => {
+        if (!conversation) return;
+        storage.delete('conversations', conversation.id).catch(err => console.error('Failed to delete conversation', err));
+        setConversation(null);
+    };
+
+    const heldTicker = holdingTickers(transactions, lotMethod)[0] ?? 'NVDA';
+    const suggestions = [
+        ...(run?.recommendations.slice(0, 1).map(rec => `Why ${rec.recommendation.toLowerCase()} ${rec.ticker}?`) ?? []),
+        `What if I add 10 ${heldTicker}?`,
+        'How does my portfolio look?',
+    ];
+    const messages = conversation?.messages ?? [];
+
+    return (
+        <Card>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <h2 className="text-xl font-semibold text-white">Ask Andre</h2>
+                {messages.length > 0 && <button type="button" onClick={clear} disabled={draft !== null} className="text-sm text-gray-400 hover:text-red-400 disabled:opacity-50">Clear conversation</button>}
+            </div>
+            <p className="text-gray-400 text-sm mb-4">
+                {run ? `About the analysis run of ${new Date(run.createdAt).toLocaleString()}.` : 'No analysis run yet, so answers draw on your holdings, journal and market data.'}
+            </p>
+            <div ref={listRef} className="space-y-3 max-h-96 overflow-y-auto mb-4" aria-live="polite">
+                {messages.map(message => (
+                    <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[80%] rounded-lg px-4 py-2 whitespace-pre-wrap ${message.role === 'user' ? 'bg-cyan-700 text-white' : 'bg-gray-700 text-gray-200'}`}>
+                            {message.content}
+                            {message.local && <p className="text-xs text-gray-400 mt-1">Answered offline from your loaded data</p>}
+                        </div>
+                    </div>
+                ))}
+                {draft !== null && (
+                    <div className="flex justify-start">
+                        <div className="max-w-[80%] rounded-lg px-4 py-2 whitespace-pre-wrap bg-gray-700 text-gray-200">{draft || <Spinner/>}</div>
+                    </div>
+                )}
+            </div>
+            {messages.length === 0 && draft === null && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {suggestions.map(text => (
+                        <button key={text} type="button" onClick={() => ask(text)} className="py-1 px-3 text-sm rounded-full bg-gray-700 text-gray-300 hover:bg-gray-600">{text}</button>
+                    ))}
+                </div>
+            )}
+            <form onSubmit={e => { e.preventDefault(); ask(input); }} className="flex space-x-2">
+                <input type="text" value={input} onChange={e => setInput(e.target.value)} aria-label="Question for Andre" placeholder="e.g., why sell MSFT?" className="flex-grow bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                <button type="submit" disabled={draft !== null || !input.trim()} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">Send</button>
+            </form>
+            {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+        </Card>
+    );
+};
+
+// Without a runId the latest run is shown; /analysis/:runId links to a specific one.
+const AnalysisPage: FC<{ runId?: string }> = ({ runId }) => {
+    const { analysis, setAnalysis, transactions, sentimentJournal, stockData, news, lotMethod, activePortfolioId, navigate } = useAppContext();
+    const user = useCurrentUser();
+    const getSignal = usePageSignal();
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [streamed, setStreamed] = useState<{ expected: number; recommendations: Recommendation[] } | null>(null);
+    const [runs, setRuns] = useState<AnalysisRun[] | null>(null);
+    
+    const [sentimentWindow, setSentimentWindow] = useState<SentimentWindow>('7d');
+    const sentimentEntries = selectSentimentWindow(sentimentJournal, sentimentWindow);
+
+    const canAnalyze = transactions && sentimentEntries.length > 0 && stockData && news;
+
+    useEffect(() => {
+        if (!activePortfolioId) return;
+        let cancelled = false;
+        storage.getAllByIndex<AnalysisRun>('analysisRuns', 'portfolioId', activePortfolioId)
+            .then(saved => { if (!cancelled) setRuns(saved.sort((a, b) => b.createdAt.localeCompare(a.createdAt))); })
+            .catch(err => console.error('Failed to load analysis history', err));
+        return () => { cancelled = true; };
+    }, [activePortfolioId]);
+
+    const handleAnalysis = async () => {
+        if (!canAnalyze || !activePortfolioId) {
+            setError("Please ensure you have uploaded transactions, logged sentiment, and fetched market data/news before analyzing.");
+            return;
+        }
+        setIsLoading(true);
+        setError('');
+
+        const payload = buildAnalyzePayload({ userId: user.id, sentimentEntries, transactions, stockData, news, lotMethod });
+        setStreamed({ expected: payload.current_metrics.length, recommendations: [] });
+        // Upsert by ticker: a retried stream starts over and repeats what was already shown.
+        const onRecommendation = (rec: Recommendation) => setStreamed(prev => prev && {
+            ...prev,
+            recommendations: prev.recommendations.some(r => r.ticker === rec.ticker)
+                ? prev.recommendations.map(r => (r.ticker === rec.ticker ? rec : r))
+                : [...prev.recommendations, rec],
+        });
+
+        try {
+            const data = await api.analyze(payload, onRecommendation, getSignal());
+            const run: AnalysisRun = {
+                id: createId(),
+                portfolioId: activePortfolioId,
+                createdAt: new Date().toISOString(),
+                sentimentWindow,
+                input: payload,
+                recommendations: data.recommendations,
+            };
+            setAnalysis(data.recommendations);
+            setRuns(prev => [run, ...(prev ?? [])]);
+            setStreamed(null);
+            navigate(analysisRunPath(run.id));
+            storage.put('analysisRuns', run).catch(err => console.error('Failed to save analysis run', err));
+        } catch(err: any) {
+            if (isAbortError(err)) return;
+            setError(err.message || "Analysis failed");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const deleteRun = (id: string) => {
+        setRuns((runs ?? []).filter(run => run.id !== id));
+        if (runId === id) navigate('/analysis');
+        storage.delete('analysisRuns', id).catch(err => console.error('Failed to delete analysis run', err));
+    };
+
+    // Partial results from a run in progress (or one that failed midway) take precedence over history.
+    const selectedRun = runId ? runs?.find(run => run.id === runId) : runs?.[0];
+    const shown = streamed ? streamed.recommendations : selectedRun?.recommendations ?? analysis;
+    
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-white">Analysis my Portfolio</h1>
+            <Card>
+                <div className="flex items-center space-x-2 mb-4">
+                    <label htmlFor="sentiment-window" className="text-sm text-gray-300">Sentiment to include</label>
+                    <select id="sentiment-window" value={sentimentWindow} onChange={e => setSentimentWindow(e.target.value as SentimentWindow)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm">
+                        {SENTIMENT_WINDOWS.map(w => <option key={w.window} value={w.window}>{w.label}</option>)}
+                    </select>
+                    <span className="text-sm text-gray-400">{sentimentEntries.length} of {sentimentJournal.length} entries</span>
+                </div>
+                <button onClick={handleAnalysis} disabled={isLoading || !canAnalyze} className="w-full py-3 px-6 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-bold text-lg disabled:opacity-50 disabled:cursor-not-allowed">
+                     {isLoading ? <span className="flex items-center justify-center"><Spinner/></span> : "Analyze My Portfolio"}
+                </button>
+                {!canAnalyze && (
+                    <div className="mt-4">
+                        <StepProgress current="analysis" />
+                        {sentimentJournal.length > 0 && sentimentEntries.length === 0 && (
+                            <p className="text-yellow-400 text-sm mt-2">None of your journal entries fall in this window; include more sentiment to analyze.</p>
+                        )}
+                    </div>
+                )}
+                {error && <p className="text-red-400 mt-4">{error}</p>}
+            </Card>
+
+            {runId && runs && !selectedRun && (
+                <p className="text-yellow-400">
+                    This analysis run no longer exists.{' '}
+                    <button type="button" onClick={() => navigate('/analysis')} className="underline hover:text-yellow-300">Show the latest run.</button>
+                </p>
+            )}
+
+            {shown && (
+                <Card>
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                        <h2 className="text-xl font-semibold text-white">AI Recommendations</h2>
+                        {streamed
+                            ? <span className="text-sm text-gray-400">{isLoading ? 'Analyzing' : 'Stopped after'} {streamed.recommendations.length} of {streamed.expected} tickers</span>
+                            : selectedRun && <span className="text-sm text-gray-400">Run of {new Date(selectedRun.createdAt).toLocaleString()}</span>}
+                        {!streamed && !runId && <StaleBadge data="analysis" />}
+                    </div>
+                    <div className="space-y-4">
+                        {shown.map(rec => <RecommendationCard key={rec.ticker} rec={rec} input={streamed ? undefined : selectedRun?.input} />)}
+                        {streamed && isLoading && <div className="flex justify-center"><Spinner/></div>}
+                    </div>
+                </Card>
+            )}
+
+            {runs && runs.length > 0 && (
+                <Card>
+                    <h2 className="text-xl font-semibold text-white mb-4">Run History</h2>
+                    <ul className="divide-y divide-gray-700">
+                        {runs.map(run => (
+                            <li key={run.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                                <span className={run.id === selectedRun?.id ? 'text-white font-semibold' : 'text-gray-300'}>
+                                    {runLabel(run)} · {SENTIMENT_WINDOWS.find(w => w.window === run.sentimentWindow)?.label}
+                                </span>
+                                <span className="space-x-3">
+                                    <button type="button" onClick={() => { setStreamed(null); navigate(analysisRunPath(run.id)); }} className="text-cyan-400 hover:underline">View</button>
+                                    <button type="button" onClick={() => deleteRun(run.id)} className="text-gray-500 hover:text-red-400">Delete</button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </Card>
+            )}
+
+            <AskAndreCard run={selectedRun ?? null} />
+
+            {runs && runs.length > 1 && <RunDiffCard key={runs[0].id} runs={runs} />}
+        </div>
+    );
+};
+
+const ScenarioPage: FC = () => {
+    const { transactions, stockData, news, sentimentJournal, lotMethod, activePortfolioId, fx } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    const user = useCurrentUser();
+    const getSignal = usePageSignal();
+    const [trades, setTrades] = useStoredSetting<HypotheticalTrade[]>(`scenario:${activePortfolioId}`, []);
+    const [form, setForm] = useState({ ticker: '', type: 'buy' as HypotheticalTrade['type'], quantity: '', price: '' });
+    const [formError, setFormError] = useState('');
+    const [sentimentWindow, setSentimentWindow] = useState<SentimentWindow>('7d');
+    const [comparison, setComparison] = useState<{ baseline: AnalysisRun; scenario: AnalysisRun } | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    // Recommendations for an older set of trades would be misleading.
+    useEffect(() => setComparison(null), [trades]);
+
+    // The route guard sends users without transactions to /upload.
+    if (!transactions || !inBase.transactions) return null;
+
+    const { currency } = inBase;
+    const scenarioTransactions = applyScenario(transactions, trades);
+    const actualLedger = computeLots(inBase.transactions, lotMethod);
+    const scenarioInBase = toBaseCurrency(scenarioTransactions, null, fx);
+    const scenarioLedger = computeLots(scenarioInBase.transactions!, lotMethod);
+    const actual = buildPositions(actualLedger.openLots, inBase.stockData);
+    const scenario = buildPositions(scenarioLedger.openLots, inBase.stockData);
+    const warnings = scenarioLedger.warnings.filter(w => !actualLedger.warnings.includes(w));
+    const tradeCurrency = (trade: HypotheticalTrade) => trade.currency ?? DEFAULT_CURRENCY;
+    // Trades priced in a currency without rates can't be added to the base-currency total, so they're left out of it.
+    const unconverted = trades.filter(t => fxRate(fx, tradeCurrency(t)) === null);
+    const cashFlow = scenarioCashFlow(trades.filter(t => !unconverted.includes(t)).map(t => ({ ...t, price: t.price * fxRate(fx, tradeCurrency(t))! })));
+    const missing = [...new Set([...inBase.missing, ...scenarioInBase.missing])].sort();
+    const sentimentEntries = selectSentimentWindow(sentimentJournal, sentimentWindow);
+    const canAnalyze = trades.length > 0 && sentimentEntries.length > 0 && stockData && news;
+
+    const priceFor = (ticker: string) => latestClose(inBase.stockData?.find(s => s.ticker === ticker));
+
+    const addTrade = (e: React.FormEvent) => {
+        e.preventDefault();
+        const ticker = normalizeTicker(form.ticker);
+        const quantity = Number(form.quantity);
+        const price = form.price ? Number(form.price) : priceFor(ticker);
+        if (!TICKER_PATTERN.test(ticker)) return setFormError('Enter a valid ticker.');
+        if (!(quantity > 0)) return setFormError('Quantity must be a positive number.');
+        if (price === null || !(price > 0)) return setFormError(`No recent price for ${ticker}; enter one.`);
+        const held = scenario.find(p => p.ticker === ticker)?.shares ?? 0;
+        if (form.type === 'sell' && quantity > held + SHARE_EPSILON) return setFormError(`The scenario only holds ${held} shares of ${ticker}.`);
+        setTrades([...trades, { id: createId(), ticker, type: form.type, quantity, price, currency }]);
+        setForm({ ...form, ticker: '', quantity: '', price: '' });
+        setFormError('');
+    };
+
+    const handleAnalyze = async () => {
+        if (!canAnalyze || !activePortfolioId) return;
+        setIsLoading(true);
+        setError('');
+        const toRun = (input: AnalyzeRequest, recommendations: Recommendation[]): AnalysisRun => ({
+            id: createId(), portfolioId: activePortfolioId, createdAt: new Date().toISOString(), sentimentWindow, input, recommendations,
+        });
+        const payloads = [transactions, scenarioTransactions].map(txs =>
+            buildAnalyzePayload({ userId: user.id, sentimentEntries, transactions: txs, stockData, news, lotMethod }));
+        try {
+            const [baseline, hypothetical] = await Promise.all(payloads.map(payload => api.analyze(payload, () => {}, getSignal())));
+            setComparison({ baseline: toRun(payloads[0], baseline.recommendations), scenario: toRun(payloads[1], hypothetical.recommendations) });
+        } catch (err: any) {
+            if (isAbortError(err)) return;
+            setError(err.message || 'Analysis failed');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const [actualStats, scenarioStats] = [actual, scenario].map(positions => ({
+        marketValue: positions.reduce((sum, p) => sum + (p.marketValue ?? 0), 0),
+        costBasis: positions.reduce((sum, p) => sum + p.costBasis, 0),
+        ...concentration(positions),
+    }));
+    const realizedBySells = scenarioLedger.realized.reduce((sum, r) => sum + r.gain, 0) - actualLedger.realized.reduce((sum, r) => sum + r.gain, 0);
+    const statRows = [
+        { label: 'Market value', actual: formatMoney(actualStats.marketValue, currency), scenario: formatMoney(scenarioStats.marketValue, currency) },
+        { label: 'Cost basis', actual: formatMoney(actualStats.costBasis, currency), scenario: formatMoney(scenarioStats.costBasis, currency) },
+        { label: 'Positions', actual: String(actual.length), scenario: String(scenario.length) },
+        {
+            label: 'Largest holding',
+            actual: actualStats.largest ? `${actualStats.largest.ticker} (${formatPercent(actualStats.largest.weight)})` : '—',
+            scenario: scenarioStats.largest ? `${scenarioStats.largest.ticker} (${formatPercent(scenarioStats.largest.weight)})` : '—',
+        },
+        { label: 'Top 3 weight', actual: formatPercent(actualStats.top3Weight), scenario: formatPercent(scenarioStats.top3Weight) },
+        { label: 'Effective holdings', actual: actualStats.effectiveHoldings.toFixed(1), scenario: scenarioStats.effectiveHoldings.toFixed(1) },
+    ];
+    const tickers = [...new Set([...actual, ...scenario].map(p => p.ticker))].sort();
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-white">What If</h1>
+            <FxNotice missing={missing} />
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-2">Hypothetical Trades</h2>
+                <p className="text-gray-400 text-sm mb-4">Try trades on top of your real history. Nothing here changes your uploaded transactions.</p>
+                <form onSubmit={addTrade} className="flex flex-wrap items-end gap-2">
+                    <div>
+                        <label htmlFor="scenario-type" className="block text-sm font-medium text-gray-300">Action</label>
+                        <select id="scenario-type" value={form.type} onChange={e => setForm({ ...form, type: e.target.value as HypotheticalTrade['type'] })} className="mt-1 bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                            <option value="buy">Buy</option>
+                            <option value="sell">Sell</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="scenario-ticker" className="block text-sm font-medium text-gray-300">Ticker</label>
+                        <input id="scenario-ticker" type="text" list="scenario-symbols" value={form.ticker} onChange={e => setForm({ ...form, ticker: e.target.value })} placeholder="e.g., NVDA" className="mt-1 w-28 bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                        <datalist id="scenario-symbols">
+                            {[...new Set([...actual.map(p => p.ticker), ...SYMBOL_DIRECTORY.map(s => s.symbol)])].map(symbol => <option key={symbol} value={symbol} />)}
+                        </datalist>
+                    </div>
+                    <div>
+                        <label htmlFor="scenario-quantity" className="block text-sm font-medium text-gray-300">Shares</label>
+                        <input id="scenario-quantity" type="number" min="0" step="any" value={form.quantity} onChange={e => setForm({ ...form, quantity: e.target.value })} className="mt-1 w-28 bg-gray-700 border border-gray-600 rounded-md p-2 text-white" />
+                    </div>
+                    <div>
+                        <label htmlFor="scenario-price" className="block text-sm font-medium text-gray-300">Price ({currency})</label>
+                        <input id="scenario-price" type="number" min="0" step="any" value={form.price} onChange={e => setForm({ ...form, price: e.target.value })} placeholder={priceFor(normalizeTicker(form.ticker))?.toFixed(2) ?? 'Last close'} className="mt-1 w-28 bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                    </div>
+                    <button type="submit" className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold">Add Trade</button>
+                </form>
+                {formError && <p className="text-red-400 text-sm mt-2">{formError}</p>}
+                {trades.length > 0 && (
+                    <>
+                        <div className="overflow-x-auto mt-4">
+                            <table className="min-w-full text-sm text-left text-gray-300">
+                                <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                                    <tr>
+                                        <th scope="col" className="px-6 py-3">Action</th>
+                                        <th scope="col" className="px-6 py-3">Ticker</th>
+                                        <th scope="col" className="px-6 py-3">Shares</th>
+                                        <th scope="col" className="px-6 py-3">Price</th>
+                                        <th scope="col" className="px-6 py-3">Amount</th>
+                                        <th scope="col" className="px-6 py-3"><span className="sr-only">Remove</span></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {trades.map(trade => (
+                                        <tr key={trade.id} className="bg-gray-800 border-b border-gray-700">
+                                            <td className={`px-6 py-4 font-semibold ${trade.type === 'buy' ? 'text-green-400' : 'text-red-400'}`}>{trade.type === 'buy' ? 'Buy' : 'Sell'}</td>
+                                            <td className="px-6 py-4 font-medium text-white">{trade.ticker}</td>
+                                            <td className="px-6 py-4">{trade.quantity}</td>
+                                            <td className="px-6 py-4">{formatMoney(trade.price, tradeCurrency(trade))}</td>
+                                            <td className="px-6 py-4">{formatMoney(trade.quantity * trade.price, tradeCurrency(trade))}</td>
+                                            <td className="px-6 py-4 text-right">
+                                                <button type="button" onClick={() => setTrades(trades.filter(t => t.id !== trade.id))} className="text-gray-500 hover:text-red-400" aria-label={`Remove ${trade.type} ${trade.ticker}`}>✕</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="flex justify-between items-center mt-4 text-sm">
+                            <p className="text-gray-400">
+                                {cashFlow < 0 ? 'Cash needed' : 'Cash raised'}: <span className="text-white">{formatMoney(Math.abs(cashFlow), currency)}</span>
+                                {unconverted.length > 0 && <span className="text-yellow-400"> (leaves out {unconverted.length} trade{unconverted.length === 1 ? '' : 's'} in {[...new Set(unconverted.map(tradeCurrency))].join(', ')})</span>}
+                                {realizedBySells !== 0 && <> · Realized by these sells: <span className={pnlClass(realizedBySells)}>{formatMoney(realizedBySells, currency)}</span></>}
+                            </p>
+                            <button type="button" onClick={() => setTrades([])} className="text-gray-400 hover:text-red-400">Clear all</button>
+                        </div>
+                    </>
+                )}
+                {warnings.map((warning, i) => <p key={i} className="text-yellow-400 text-sm mt-2">{warning}</p>)}
+            </Card>
+
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Actual vs. Scenario</h2>
+                <div className="overflow-x-auto mb-6">
+                    <table className="min-w-full text-sm text-left text-gray-300">
+                        <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                            <tr>
+                                <th scope="col" className="px-6 py-3"></th>
+                                <th scope="col" className="px-6 py-3">Actual</th>
+                                <th scope="col" className="px-6 py-3">Scenario</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {statRows.map(row => (
+                                <tr key={row.label} className="bg-gray-800 border-b border-gray-700">
+                                    <th scope="row" className="px-6 py-4 font-medium text-gray-200">{row.label}</th>
+                                    <td className="px-6 py-4">{row.actual}</td>
+                                    <td className={`px-6 py-4 ${row.actual !== row.scenario ? 'text-white font-semibold' : ''}`}>{row.scenario}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <h3 className="text-lg font-semibold text-white mb-2">Positions</h3>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full text-sm text-left text-gray-300">
+                        <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Ticker</th>
+                                <th scope="col" className="px-6 py-3">Shares</th>
+                                <th scope="col" className="px-6 py-3">Weight</th>
+                                <th scope="col" className="px-6 py-3">Weight Change</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tickers.map(ticker => {
+                                const [before, after] = [actual, scenario].map(positions => positions.find(p => p.ticker === ticker));
+                                const weightChange = (after?.weight ?? 0) - (before?.weight ?? 0);
+                                return (
+                                    <tr key={ticker} className="bg-gray-800 border-b border-gray-700">
+                                        <td className="px-6 py-4 font-medium text-white">{ticker}</td>
+                                        <td className="px-6 py-4">{before?.shares ?? 0}{before?.shares !== after?.shares && ` → ${after?.shares ?? 0}`}</td>
+                                        <td className="px-6 py-4">{formatPercent(before?.weight ?? 0)} → {formatPercent(after?.weight ?? 0)}</td>
+                                        <td className={`px-6 py-4 ${Math.abs(weightChange) < 1e-4 ? 'text-gray-500' : pnlClass(weightChange)}`}>{weightChange > 0 ? '+' : ''}{formatPercent(weightChange)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-6">
+                <AllocationCard positions={actual} title="Actual Allocation" />
+                <AllocationCard positions={scenario} title="Scenario Allocation" />
+            </div>
+
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Scenario Analysis</h2>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <label htmlFor="scenario-sentiment-window" className="text-sm text-gray-300">Sentiment to include</label>
+                    <select id="scenario-sentiment-window" value={sentimentWindow} onChange={e => setSentimentWindow(e.target.value as SentimentWindow)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm">
+                        {SENTIMENT_WINDOWS.map(w => <option key={w.window} value={w.window}>{w.label}</option>)}
+                    </select>
+                    <button type="button" onClick={handleAnalyze} disabled={isLoading || !canAnalyze} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">
+                        {isLoading ? <Spinner/> : 'Analyze Actual & Scenario'}
+                    </button>
+                </div>
+                {!canAnalyze && <p className="text-yellow-400 text-sm">Add a trade, log sentiment and fetch market data and news to compare recommendations.</p>}
+                {error && <p className="text-red-400">{error}</p>}
+                {comparison && (
+                    <>
+                        <p className="text-gray-400 text-sm mb-4">How the recommendations would change if you made these trades.</p>
+                        <RunDiffTable base={comparison.baseline} next={comparison.scenario} />
+                    </>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+// Red for holdings that move together (little diversification), green for ones that offset each other.
+const correlationColor = (value: number) =>
+    value >= 0 ? `rgba(248, 113, 113, ${value * 0.6})` : `rgba(74, 222, 128, ${-value * 0.6})`;
+
+const PerformancePage: FC = () => {
+    const { transactions, stockData, lotMethod } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    const getSignal = usePageSignal();
+    const [range, setRange] = useState<ChartRange>('1Y');
+    const [benchmarkTicker, setBenchmarkTicker, isBenchmarkLoaded] = useStoredSetting('analyticsBenchmark', 'SPY');
+    const [benchmarkInput, setBenchmarkInput] = useState('');
+    const [fetchedBenchmark, setFetchedBenchmark] = useState<StockData | null>(null);
+    const [riskFreePercent, setRiskFreePercent] = useState('4');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    // Until the saved choice is read, benchmarkTicker is only the default; nothing is fetched or compared against it.
+    const loadedBenchmark = !isBenchmarkLoaded ? null
+        : stockData?.find(s => s.ticker === benchmarkTicker) ?? (fetchedBenchmark?.ticker === benchmarkTicker ? fetchedBenchmark : null);
+
+    // Benchmarks outside the fetched market data are loaded separately so they don't leak into /analyze.
+    useEffect(() => {
+        if (!isBenchmarkLoaded || !stockData || loadedBenchmark || !benchmarkTicker) return;
+        setIsLoading(true);
+        setError('');
+        api.getStockData([benchmarkTicker], getSignal())
+            .then(data => {
+                if (data.data[0]) setFetchedBenchmark(data.data[0]);
+                else setError(`No price data for ${benchmarkTicker}.`);
+            })
+            .catch(err => { if (!isAbortError(err)) setError(err.message || 'Failed to load the benchmark'); })
+            .finally(() => setIsLoading(false));
+    }, [isBenchmarkLoaded, benchmarkTicker, loadedBenchmark, stockData, getSignal]);
+
+    // The route guard sends users to /upload or /market-data until both are loaded.
+    if (!transactions || !stockData || !inBase.transactions || !inBase.stockData) return null;
+
+    // Returns are measured in the base currency, so they include currency moves.
+    const points = filterRange(portfolioValueSeries(inBase.transactions, inBase.stockData), range);
+    const riskFreeRate = (Number(riskFreePercent) || 0) / 100;
+    const stats = performanceStats(points, loadedBenchmark, riskFreeRate);
+    const since = points[0]?.date ?? '';
+    const held = holdingTickers(transactions, lotMethod);
+    const unpriced = held.filter(ticker => !stockData.some(s => s.ticker === ticker));
+    const correlated = stockData.filter(s => held.includes(s.ticker));
+    const matrix = correlationMatrix(correlated, since);
+
+    let growthIndex = 1;
+    const growth: ChartPoint[] = [{ date: since, value: 0 }, ...timeWeightedReturns(points).map(r => {
+        growthIndex *= 1 + r.value;
+        return { date: r.date, value: growthIndex - 1 };
+    })];
+    const benchmarkGrowth = loadedBenchmark ? normalizeSeries(sortedHistory(loadedBenchmark).filter(p => p.date >= since)) : [];
+
+    const applyBenchmark = (e: React.FormEvent) => {
+        e.preventDefault();
+        const ticker = normalizeTicker(benchmarkInput);
+        if (!TICKER_PATTERN.test(ticker)) return setError('Enter a valid benchmark ticker.');
+        setBenchmarkTicker(ticker);
+        setBenchmarkInput('');
+    };
+
+    const toggleClass = (active: boolean) =>
+        `py-1 px-3 text-sm rounded-md font-semibold ${active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+    const formatRatio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+    const cards = stats && [
+        { label: 'Time-weighted return', value: formatPercent(stats.twr), note: stats.twrAnnualized === null ? 'Not annualized' : `${formatPercent(stats.twrAnnualized)} a year`, className: pnlClass(stats.twr) },
+        { label: 'Money-weighted return', value: stats.mwr === null ? '—' : formatPercent(stats.mwr), note: 'Annual rate (XIRR)', className: pnlClass(stats.mwr) },
+        { label: 'Volatility', value: formatPercent(stats.volatility), note: 'Annualized', className: 'text-white' },
+        { label: 'Max drawdown', value: formatPercent(stats.maxDrawdown), note: 'Peak to trough', className: stats.maxDrawdown < 0 ? 'text-red-400' : 'text-white' },
+        { label: 'Sharpe ratio', value: formatRatio(stats.sharpe), note: `Risk-free ${riskFreePercent || 0}%`, className: 'text-white' },
+        { label: 'Beta', value: formatRatio(stats.beta), note: `vs. ${benchmarkTicker}`, className: 'text-white' },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-white">Performance & Risk</h1>
+            <FxNotice missing={inBase.missing} />
+            <Card>
+                <div className="flex flex-wrap items-end justify-between gap-4">
+                    <div className="flex flex-wrap gap-2">
+                        {CHART_RANGES.map(r => (
+                            <button key={r.range} type="button" onClick={() => setRange(r.range)} className={toggleClass(range === r.range)}>{r.range}</button>
+                        ))}
+                    </div>
+                    <form onSubmit={applyBenchmark} className="flex items-end gap-2 text-sm">
+                        <div>
+                            <label htmlFor="benchmark" className="block text-gray-300">Benchmark</label>
+                            <input id="benchmark" type="text" list="benchmark-symbols" value={benchmarkInput} onChange={e => setBenchmarkInput(e.target.value)} placeholder={benchmarkTicker} className="mt-1 w-24 bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                            <datalist id="benchmark-symbols">
+                                {['SPY', 'QQQ', 'VTI', 'DIA', 'IWM', ...stockData.map(s => s.ticker)].map(symbol => <option key={symbol} value={symbol} />)}
+                            </datalist>
+                        </div>
+                        <button type="submit" className="py-2 px-3 bg-gray-600 hover:bg-gray-500 rounded-md text-white">Set</button>
+                        <div>
+                            <label htmlFor="risk-free" className="block text-gray-300">Risk-free %</label>
+                            <input id="risk-free" type="number" step="0.1" value={riskFreePercent} onChange={e => setRiskFreePercent(e.target.value)} className="mt-1 w-20 bg-gray-700 border border-gray-600 rounded-md p-2 text-white" />
+                        </div>
+                    </form>
+                </div>
+                {isLoading && <p className="text-gray-400 text-sm mt-2">Loading {benchmarkTicker}…</p>}
+                {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+                {unpriced.length > 0 && <p className="text-yellow-400 text-sm mt-2">No price history for {unpriced.join(', ')}; these holdings are left out of the figures below.</p>}
+            </Card>
+
+            {!cards ? (
+                <Card><p className="text-gray-400">Not enough price history in this period to measure performance.</p></Card>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                        {cards.map(card => (
+                            <Card key={card.label} className="!p-4">
+                                <p className="text-sm text-gray-400">{card.label}</p>
+                                <p className={`text-2xl font-bold ${card.className}`}>{card.value}</p>
+                                <p className="text-xs text-gray-500">{card.note}</p>
+                            </Card>
+                        ))}
+                    </div>
+                    <Card>
+                        <h2 className="text-xl font-semibold text-white mb-2">Growth</h2>
+                        <p className="text-gray-400 text-sm mb-2">Time-weighted, so deposits and withdrawals don't show up as gains or losses.</p>
+                        <PriceChart
+                            series={[
+                                { label: 'Portfolio', color: CHART_COLORS[0], points: growth },
+                                ...(benchmarkGrowth.length ? [{ label: benchmarkTicker, color: CHART_COLORS[1], points: benchmarkGrowth }] : []),
+                            ]}
+                            formatValue={formatPercent}
+                        />
+                        <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                            <span style={{ color: CHART_COLORS[0] }}>■ Portfolio</span>
+                            {benchmarkGrowth.length > 0 && <span style={{ color: CHART_COLORS[1] }}>■ {benchmarkTicker}</span>}
+                        </div>
+                    </Card>
+                </>
+            )}
+
+            {correlated.length > 1 && (
+                <Card>
+                    <h2 className="text-xl font-semibold text-white mb-2">Correlation</h2>
+                    <p className="text-gray-400 text-sm mb-4">How closely your holdings' daily returns move together (1 = in lockstep, -1 = opposite).</p>
+                    <div className="overflow-x-auto">
+                        <table className="text-sm text-center text-gray-200">
+                            <thead>
+                                <tr>
+                                    <th scope="col" className="px-3 py-2"></th>
+                                    {correlated.map(s => <th key={s.ticker} scope="col" className="px-3 py-2 font-semibold">{s.ticker}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {correlated.map((row, i) => (
+                                    <tr key={row.ticker}>
+                                        <th scope="row" className="px-3 py-2 text-left font-semibold">{row.ticker}</th>
+                                        {matrix[i].map((value, j) => (
+                                            <td key={correlated[j].ticker} className="px-3 py-2 border border-gray-700" style={{ backgroundColor: value === null ? undefined : correlationColor(value) }}>
+                                                {value === null ? '—' : value.toFixed(2)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+const ReportPage: FC = () => {
+    const { transactions, stockData, analysis, lotMethod, portfolios, activePortfolioId, navigate } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    const user = useCurrentUser();
+    const [latestRun, setLatestRun] = useState<AnalysisRun | null>(null);
+    const [generatedAt] = useState(() => new Date());
+
+    useEffect(() => {
+        if (!activePortfolioId) return;
+        let cancelled = false;
+        storage.getAllByIndex<AnalysisRun>('analysisRuns', 'portfolioId', activePortfolioId)
+            .then(runs => { if (!cancelled) setLatestRun(runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] ?? null); })
+            .catch(err => console.error('Failed to load analysis history', err));
+        return () => { cancelled = true; };
+    }, [activePortfolioId]);
+
+    // The route guard sends users without transactions to /upload.
+    if (!transactions || !inBase.transactions) return null;
+
+    const { currency } = inBase;
+    const ledger = computeLots(inBase.transactions, lotMethod);
+    const positions = buildPositions(ledger.openLots, inBase.stockData);
+    const realizedGain = ledger.realized.reduce((sum, r) => sum + r.gain, 0);
+    const valuePoints = inBase.stockData ? filterRange(portfolioValueSeries(inBase.transactions, inBase.stockData), '1Y') : [];
+    const heldStock = (stockData ?? []).filter(s => positions.some(p => p.ticker === s.ticker));
+    const recommendations = latestRun?.recommendations ?? analysis;
+    const realizedByYear = [...new Set(ledger.realized.map(r => r.closeDate.slice(0, 4)))].sort().reverse().map(year => {
+        const gains = ledger.realized.filter(r => r.closeDate.startsWith(year));
+        const total = (term: string) => gains.filter(r => holdingTerm(r) === term).reduce((sum, r) => sum + r.gain, 0);
+        return { year, shortTerm: total('short'), longTerm: total('long') };
+    });
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">Portfolio Report: {portfolios.find(p => p.id === activePortfolioId)?.name}</h1>
+                    <p className="text-gray-400 text-sm">
+                        Generated {generatedAt.toLocaleString()} for {user.name || user.email} · {LOT_METHODS.find(m => m.method === lotMethod)?.label} cost basis · Amounts in {currency}
+                    </p>
+                </div>
+                <div className="flex space-x-2 no-print">
+                    <button type="button" onClick={() => navigate('/dashboard')} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold">Back</button>
+                    <button type="button" onClick={() => window.print()} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold">Print / Save as PDF</button>
+                </div>
+            </div>
+            <FxNotice missing={inBase.missing} />
+            <PortfolioSummary positions={positions} realizedGain={realizedGain} currency={currency} />
+            {positions.length > 0 && <HoldingsCard positions={positions} currency={currency} />}
+            {positions.length > 0 && <AllocationCard positions={positions} />}
+            {valuePoints.length > 1 && (
+                <Card className="print-avoid-break">
+                    <h2 className="text-xl font-semibold text-white mb-4">Portfolio Value (1 Year)</h2>
+                    <PriceChart series={[{ label: 'Portfolio value', color: '#818cf8', points: valuePoints }]} area formatValue={value => formatMoney(value, currency)} />
+                </Card>
+            )}
+            {heldStock.length > 0 && (
+                <Card>
+                    <h2 className="text-xl font-semibold text-white mb-4">Price History (1 Year)</h2>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        {heldStock.map((stock, i) => {
+                            const points = filterRange(sortedHistory(stock), '1Y');
+                            const quoted = quoteCurrency(stock);
+                            return (
+                                <div key={stock.ticker} className="print-avoid-break">
+                                    <h3 className="font-bold text-cyan-400 mb-2">{stock.ticker}</h3>
+                                    <PriceChart series={[{ label: stock.ticker, color: CHART_COLORS[i % CHART_COLORS.length], points }]} markers={buyMarkers(transactions, stock.ticker, points, quoted)} formatValue={value => formatMoney(value, quoted)} />
+                                </div>
+                            );
+                        })}
+                    </div>
+                </Card>
+            )}
+            <Card className="print-avoid-break">
+                <h2 className="text-xl font-semibold text-white mb-1">Recommendations</h2>
+                <p className="text-gray-400 text-sm mb-4">
+                    {latestRun ? `From the analysis run of ${new Date(latestRun.createdAt).toLocaleString()}.` : recommendations ? 'From the most recent analysis.' : 'No analysis has been run for this portfolio yet.'}
+                </p>
+                <div className="space-y-4">
+                    {recommendations?.map(rec => <RecommendationCard key={rec.ticker} rec={rec} />)}
+                </div>
+            </Card>
+            {realizedByYear.length > 0 && (
+                <Card className="print-avoid-break">
+                    <h2 className="text-xl font-semibold text-white mb-4">Realized Gains by Year</h2>
+                    <table className="min-w-full text-sm text-left text-gray-300">
+                        <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
+                            <tr>
+                                <th scope="col" className="px-6 py-3">Year</th>
+                                <th scope="col" className="px-6 py-3">Short Term</th>
+                                <th scope="col" className="px-6 py-3">Long Term</th>
+                                <th scope="col" className="px-6 py-3">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {realizedByYear.map(row => (
+                                <tr key={row.year} className="bg-gray-800 border-b border-gray-700">
+                                    <td className="px-6 py-4 font-medium text-white">{row.year}</td>
+                                    <td className={`px-6 py-4 ${pnlClass(row.shortTerm)}`}>{formatMoney(row.shortTerm, currency)}</td>
+                                    <td className={`px-6 py-4 ${pnlClass(row.longTerm)}`}>{formatMoney(row.longTerm, currency)}</td>
+                                    <td className={`px-6 py-4 ${pnlClass(row.shortTerm + row.longTerm)}`}>{formatMoney(row.shortTerm + row.longTerm, currency)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </Card>
+            )}
+        </div>
+    );
+};
+
+const AlertsPage: FC = () => {
+    const { transactions, stockData, lotMethod } = useAppContext();
+    const [rules, setRules] = useStoredSetting<AlertRule[]>('alertRules', []);
+    const [history, setHistory] = useStoredSetting<AlertEvent[]>('alertHistory', []);
+    const [settings, setSettings] = useStoredSetting<AlertSettings>('alertSettings', DEFAULT_ALERT_SETTINGS);
+    const [form, setForm] = useState({ kind: 'price-above' as AlertKind, ticker: '', threshold: '' });
+    const [formError, setFormError] = useState('');
+    const [permission, setPermission] = useState(() => ('Notification' in window ? Notification.permission : 'unsupported'));
+    const holdings = holdingTickers(transactions, lotMethod);
+    const kindInfo = ALERT_KINDS.find(k => k.kind === form.kind)!;
+
+    const addRule = (e: React.FormEvent) => {
+        e.preventDefault();
+        const ticker = normalizeTicker(form.ticker);
+        const threshold = Number(form.threshold);
+        // Only recommendation rules may leave the ticker blank, meaning every holding.
+        if ((ticker || form.kind !== 'recommendation-change') && !TICKER_PATTERN.test(ticker)) return setFormError('Enter a valid ticker.');
+        if (kindInfo.thresholdLabel && !(threshold > 0)) return setFormError(`${kindInfo.thresholdLabel} must be a positive number.`);
+        setRules([...rules, {
+            id: createId(),
+            kind: form.kind,
+            ticker,
+            threshold: kindInfo.thresholdLabel ? threshold : 0,
+            enabled: true,
+            createdAt: new Date().toISOString(),
+        }]);
+        setForm({ ...form, ticker: '', threshold: '' });
+        setFormError('');
+    };
+
+    const toggleRule = (id: string) => setRules(rules.map(rule => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+
+    const toggleBrowserNotifications = async (enabled: boolean) => {
+        if (enabled && Notification.permission === 'default') {
+            const result = await Notification.requestPermission();
+            setPermission(result);
+            if (result !== 'granted') return;
+        }
+        setSettings({ ...settings, browserNotifications: enabled });
+    };
+
+    return (
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold text-white">Alerts</h1>
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-2">New Alert</h2>
+                <p className="text-gray-400 text-sm mb-4">Price rules are checked against the latest daily closes. Recommendation rules fire when an analysis run disagrees with the previous one.</p>
+                <form onSubmit={addRule} className="flex flex-wrap items-end gap-2">
+                    <div>
+                        <label htmlFor="alert-kind" className="block text-sm font-medium text-gray-300">When</label>
+                        <select id="alert-kind" value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as AlertKind })} className="mt-1 bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                            {ALERT_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="alert-ticker" className="block text-sm font-medium text-gray-300">Ticker</label>
+                        <input id="alert-ticker" type="text" list="alert-symbols" value={form.ticker} onChange={e => setForm({ ...form, ticker: e.target.value })} placeholder={form.kind === 'recommendation-change' ? 'Any holding' : 'e.g., AAPL'} className="mt-1 w-32 bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
+                        <datalist id="alert-symbols">
+                            {[...new Set([...holdings, ...SYMBOL_DIRECTORY.map(s => s.symbol)])].map(symbol => <option key={symbol} value={symbol} />)}
+                        </datalist>
+                    </div>
+                    {kindInfo.thresholdLabel && (
+                        <div>
+                            <label htmlFor="alert-threshold" className="block text-sm font-medium text-gray-300">{kindInfo.thresholdLabel}</label>
+                            <input id="alert-threshold" type="number" min="0" step="any" value={form.threshold} onChange={e => setForm({ ...form, threshold: e.target.value })} className="mt-1 w-28 bg-gray-700 border border-gray-600 rounded-md p-2 text-white" />
+                        </div>
+                    )}
+                    <button type="submit" className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold">Add Alert</button>
+                </form>
+                {formError && <p className="text-red-400 text-sm mt-2">{formError}</p>}
+                {rules.length === 0 ? (
+                    <p className="text-gray-400 text-sm mt-4">No alerts yet.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-700 mt-4">
+                        {rules.map(rule => (
+                            <li key={rule.id} className="flex items-center justify-between py-2 text-sm">
+                                <label className={`flex items-center space-x-2 ${rule.enabled ? 'text-gray-200' : 'text-gray-500'}`}>
+                                    <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+                                    <span>{describeAlertRule(rule, stockData)}</span>
+                                </label>
+                                <button type="button" onClick={() => setRules(rules.filter(r => r.id !== rule.id))} className="text-gray-500 hover:text-red-400" aria-label={`Delete alert: ${describeAlertRule(rule, stockData)}`}>✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </Card>
+
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Delivery</h2>
+                <div className="flex flex-wrap items-center gap-6 text-sm">
+                    <div className="flex items-center space-x-2">
+                        <label htmlFor="alert-poll" className="text-gray-300">Check in the background</label>
+                        <select id="alert-poll" value={settings.pollMinutes} onChange={e => setSettings({ ...settings, pollMinutes: Number(e.target.value) })} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white">
+                            {ALERT_POLL_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes ? `Every ${minutes} minutes` : 'Never'}</option>)}
+                        </select>
+                    </div>
+                    <label className="flex items-center space-x-2 text-gray-300">
+                        <input type="checkbox" checked={settings.browserNotifications && permission === 'granted'} disabled={permission === 'unsupported' || permission === 'denied'} onChange={e => toggleBrowserNotifications(e.target.checked)} />
+                        <span>Browser notifications</span>
+                    </label>
+                    {permission === 'denied' && <span className="text-yellow-400">Notifications are blocked for this site in your browser settings.</span>}
+                    {permission === 'unsupported' && <span className="text-gray-500">This browser does not support notifications.</span>}
+                </div>
+                <p className="text-gray-400 text-sm mt-2">Alerts always appear in the app. Background checks fetch market data for your alert tickers and, when you have recommendation alerts, re-run the analysis with the last 7 days of sentiment.</p>
+            </Card>
 
-    return (
-        <div className="space-y-6">
-            <h1 className="text-3xl font-bold text-white">Dashboard</h1>
             <Card>
-                <h2 className="text-xl font-semibold text-white mb-4">Transaction Preview</h2>
-                <div className="overflow-x-auto">
-                    <table className="min-w-full text-sm text-left text-gray-300">
-                        <thead className="bg-gray-700 text-xs text-gray-200 uppercase">
-                            <tr>
-                                <th scope="col" className="px-6 py-3">Ticker</th>
-                                <th scope="col" className="px-6 py-3">Buy Date</th>
-                                <th scope="col" className="px-6 py-3">Quantity</th>
-                                <th scope="col" className="px-6 py-3">Price</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {transactions.map((tx, index) => (
-                                <tr key={index} className="bg-gray-800 border-b border-gray-700">
-                                    <td className="px-6 py-4 font-medium text-white">{tx.ticker}</td>
-                                    <td className="px-6 py-4">{tx.buy_date}</td>
-                                    <td className="px-6 py-4">{tx.quantity}</td>
-                                    <td className="px-6 py-4">${tx.price.toFixed(2)}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-semibold text-white">History</h2>
+                    {history.length > 0 && <button type="button" onClick={() => setHistory([])} className="text-sm text-gray-400 hover:text-red-400">Clear history</button>}
                 </div>
+                {history.length === 0 ? (
+                    <p className="text-gray-400 text-sm">Nothing has triggered yet.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {history.map(event => (
+                            <li key={event.id} className="py-2 text-sm">
+                                <p className="text-gray-200">{event.message}</p>
+                                <p className="text-xs text-gray-500">{new Date(event.triggeredAt).toLocaleString()}</p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
             </Card>
         </div>
     );
 };
 
-const SentimentPage: FC = () => {
-    const { sentiment, setSentiment } = useAppContext();
-    const [input, setInput] = useState('');
+const TickerPage: FC<{ symbol: string }> = ({ symbol }) => {
+    const { transactions, stockData, news, analysis, lotMethod, fx, navigate } = useAppContext();
+    const inBase = useBaseCurrencyData();
+    const getSignal = usePageSignal();
+    const ticker = normalizeTicker(symbol);
+    const isValid = TICKER_PATTERN.test(ticker);
+    const [fetched, setFetched] = useState<StockData | null>(null);
+    const [range, setRange] = useState<ChartRange>('6M');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
-    const [message, setMessage] = useState('');
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
+    const loaded = stockData?.find(s => s.ticker === ticker) ?? (fetched?.ticker === ticker ? fetched : null);
+
+    // Deep links can name any ticker, so one missing from the fetched market data is loaded on its own.
+    useEffect(() => {
+        if (!isValid || loaded) return;
         setIsLoading(true);
         setError('');
-        setMessage('');
-        try {
-            const response = await fetch(`${API_BASE_URL}/get-sentiment`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ user_id: 'default-user', sentiment: input }),
-            });
-            const data = await response.json();
-            if (!response.ok) throw new Error(data.message || 'Failed to submit sentiment');
-            setSentiment(data.sentiment);
-            setMessage(`Sentiment captured: "${data.sentiment}"`);
-            setInput('');
-        } catch (err: any) {
-            setError(err.message);
-        } finally {
-            setIsLoading(false);
-        }
-    };
-    
+        api.getStockData([ticker], getSignal())
+            .then(data => {
+                if (data.data[0]) setFetched(data.data[0]);
+                else setError(`No price data for ${ticker}.`);
+            })
+            .catch(err => { if (!isAbortError(err)) setError(err.message || 'Failed to fetch stock data'); })
+            .finally(() => setIsLoading(false));
+    }, [ticker, isValid, loaded, getSignal]);
+
+    if (!isValid) return <p className="text-red-400">"{symbol}" is not a valid ticker symbol.</p>;
+
+    const prices = loaded && !stockData?.includes(loaded) ? [...(stockData ?? []), loaded] : stockData;
+    const position = buildPositions(computeLots(inBase.transactions ?? [], lotMethod).openLots, toBaseCurrency(null, prices, fx).stockData).find(p => p.ticker === ticker);
+    const recommendation = analysis?.find(r => r.ticker === ticker);
+    const stories = news ? groupNewsStories(news).filter(story => story.tickers.includes(ticker)) : [];
+    const points = loaded ? filterRange(sortedHistory(loaded), range) : [];
+    const quoted = loaded ? quoteCurrency(loaded) : DEFAULT_CURRENCY;
+    const companyName = SYMBOL_DIRECTORY.find(s => s.symbol === ticker)?.name;
+
     return (
         <div className="space-y-6">
-            <h1 className="text-3xl font-bold text-white">What's Up?</h1>
+            <div>
+                <h1 className="text-3xl font-bold text-white">{ticker}</h1>
+                {companyName && <p className="text-gray-400">{companyName}</p>}
+            </div>
+            {position && (
+                <Card>
+                    <h2 className="text-xl font-semibold text-white mb-4">Your Position</h2>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                        <div><p className="text-gray-400">Shares</p><p className="text-white font-semibold">{formatQuantity(position.shares)}</p></div>
+                        <div><p className="text-gray-400">Average Cost</p><p className="text-white font-semibold">{formatMoney(position.averageCost, inBase.currency)}</p></div>
+                        <div><p className="text-gray-400">Market Value</p><p className="text-white font-semibold">{position.marketValue === null ? '—' : formatMoney(position.marketValue, inBase.currency)}</p></div>
+                        <div><p className="text-gray-400">Unrealized P&L</p><p className={`font-semibold ${pnlClass(position.unrealizedPnl)}`}>{position.unrealizedPnl === null ? '—' : formatMoney(position.unrealizedPnl, inBase.currency)}</p></div>
+                        <div><p className="text-gray-400">Weight</p><p className="text-white font-semibold">{formatPercent(position.weight)}</p></div>
+                    </div>
+                </Card>
+            )}
             <Card>
-                <h2 className="text-xl font-semibold text-white mb-4">Log Your Daily Sentiment</h2>
-                <p className="text-gray-400 mb-4">How are you feeling about the market today?</p>
-                <form onSubmit={handleSubmit} className="space-y-4">
-                    <input type="text" value={input} onChange={(e) => setInput(e.target.value)} placeholder="e.g., bullish on tech, worried about inflation" className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white placeholder-gray-400" />
-                    <button type="submit" disabled={isLoading} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">
-                        {isLoading ? <Spinner/> : "Submit"}
-                    </button>
-                </form>
-                {error && <p className="text-red-400 mt-4">{error}</p>}
-                {message && <p className="text-green-400 mt-4">{message}</p>}
-                {sentiment && <p className="text-gray-300 mt-4">Current stored sentiment: <span className="font-bold text-cyan-400">{sentiment}</span></p>}
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <h2 className="text-xl font-semibold text-white">Price History</h2>
+                        <StaleBadge data="stockData" />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {CHART_RANGES.map(r => (
+                            <button key={r.range} type="button" onClick={() => setRange(r.range)} className={`py-1 px-3 text-sm rounded-md font-semibold ${range === r.range ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>{r.range}</button>
+                        ))}
+                    </div>
+                </div>
+                {isLoading && <div className="flex justify-center"><Spinner /></div>}
+                {error && <p className="text-red-400">{error}</p>}
+                {loaded && (
+                    <>
+                        <PriceChart series={[{ label: ticker, color: CHART_COLORS[0], points }]} markers={buyMarkers(transactions, ticker, points, quoted)} formatValue={value => formatMoney(value, quoted)} />
+                        <p className="text-sm text-gray-400 mt-2">
+                            P/E Ratio: <span className="text-white">{loaded.pe_ratio}</span> · EPS: <span className="text-white">{formatMoney(loaded.eps, quoted)}</span>
+                            {loaded.exchange && <> · {loaded.exchange}</>} · Prices in {quoted}
+                        </p>
+                    </>
+                )}
+            </Card>
+            {recommendation && <RecommendationCard rec={recommendation} />}
+            <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">News</h2>
+                {stories.length > 0 ? (
+                    <ul className="space-y-2">
+                        {stories.map(story => <StoryItem key={story.id} story={story} />)}
+                    </ul>
+                ) : (
+                    <p className="text-gray-400 text-sm">
+                        No news loaded for {ticker}.{' '}
+                        <button type="button" onClick={() => navigate('/market-data')} className="text-cyan-400 underline hover:text-cyan-300">Fetch news</button> to see what's moving it.
+                    </p>
+                )}
             </Card>
         </div>
     );
 };
 
-const MarketDataPage: FC = () => {
-    const { stockData, setStockData, news, setNews } = useAppContext();
-    const [tickers, setTickers] = useState('AAPL,GOOG,MSFT');
-    const [isLoading, setIsLoading] = useState({ stock: false, news: false });
-    const [error, setError] = useState({ stock: '', news: '' });
+const NotFoundPage: FC<{ path: string }> = ({ path }) => {
+    const { navigate, user } = useAppContext();
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen bg-gray-900 p-4 text-center">
+            <h1 className="text-5xl font-bold text-white mb-2">Page not found</h1>
+            <p className="text-xl text-gray-400 mb-8">There is nothing at <span className="text-gray-200">{path}</span>.</p>
+            <button type="button" onClick={() => navigate(user ? '/dashboard' : '/upload')} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold">
+                {user ? 'Go to the dashboard' : 'Go to the start'}
+            </button>
+        </div>
+    );
+};
 
-    const fetchStockData = async () => {
-        setIsLoading(prev => ({...prev, stock: true}));
-        setError(prev => ({...prev, stock: ''}));
-        try {
-            const response = await fetch(`${API_BASE_URL}/get-stock-data?tickers=${tickers}`);
-            const data = await response.json();
-            if (!response.ok) throw new Error(data.message || 'Failed to fetch stock data');
-            setStockData(data.data);
-        } catch(err: any) {
-            setError(prev => ({...prev, stock: err.message}));
-        } finally {
-            setIsLoading(prev => ({...prev, stock: false}));
-        }
+// --- LAYOUT COMPONENTS ---
+const PortfolioSwitcher: FC = () => {
+    const { portfolios, activePortfolioId, switchPortfolio, createPortfolio, renamePortfolio, deletePortfolio } = useAppContext();
+    const [mode, setMode] = useState<'idle' | 'new' | 'rename'>('idle');
+    const [name, setName] = useState('');
+    const active = portfolios.find(p => p.id === activePortfolioId);
+
+    const startEditing = (next: 'new' | 'rename') => {
+        setName(next === 'rename' ? active?.name ?? '' : '');
+        setMode(next);
     };
 
-    const fetchNews = async () => {
-        setIsLoading(prev => ({...prev, news: true}));
-        setError(prev => ({...prev, news: ''}));
-        try {
-            const response = await fetch(`${API_BASE_URL}/get-news?tickers=${tickers}`);
-            const data = await response.json();
-            if (!response.ok) throw new Error(data.message || 'Failed to fetch news');
-            setNews(data.headlines);
-        } catch(err: any) {
-            setError(prev => ({...prev, news: err.message}));
-        } finally {
-            setIsLoading(prev => ({...prev, news: false}));
-        }
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        if (mode === 'new') await createPortfolio(trimmed);
+        else if (activePortfolioId) await renamePortfolio(activePortfolioId, trimmed);
+        setMode('idle');
     };
 
-    return (
-        <div className="space-y-8">
-            <h1 className="text-3xl font-bold text-white">Market Data</h1>
-            <Card>
-                <h2 className="text-xl font-semibold text-white mb-4">Fetch Stock & News Data</h2>
-                <div className="flex items-end space-x-4">
-                    <div className="flex-grow">
-                        <label htmlFor="tickers" className="block text-sm font-medium text-gray-300">Tickers (comma-separated)</label>
-                        <input type="text" id="tickers" value={tickers} onChange={e => setTickers(e.target.value)} className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-white"/>
-                    </div>
-                    <button onClick={fetchStockData} disabled={isLoading.stock} className="py-2 px-4 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50 h-10">
-                        {isLoading.stock ? <Spinner/> : "Get Stock Data"}
-                    </button>
-                    <button onClick={fetchNews} disabled={isLoading.news} className="py-2 px-4 bg-indigo-600 hover:bg-indigo-700 rounded-md text-white font-semibold disabled:opacity-50 h-10">
-                        {isLoading.news ? <Spinner/> : "Get News"}
-                    </button>
-                </div>
-            </Card>
+    const handleDelete = async () => {
+        if (active && window.confirm(`Delete the portfolio "${active.name}" and all of its data?`)) await deletePortfolio(active.id);
+    };
 
-            {error.stock && <p className="text-red-400">{error.stock}</p>}
-            {stockData && (
-                <Card>
-                    <h3 className="text-lg font-semibold text-white mb-4">Stock Financials</h3>
-                    {stockData.map(stock => (
-                        <div key={stock.ticker} className="mb-4">
-                            <h4 className="font-bold text-cyan-400">{stock.ticker}</h4>
-                            <p>P/E Ratio: {stock.pe_ratio}</p>
-                            <p>EPS: {stock.eps}</p>
-                        </div>
-                    ))}
-                </Card>
-            )}
+    if (mode !== 'idle') {
+        return (
+            <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+                <input type="text" autoFocus value={name} onChange={e => setName(e.target.value)} placeholder="Portfolio name" aria-label="Portfolio name" className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm placeholder-gray-400"/>
+                <button type="submit" disabled={!name.trim()} className="py-2 px-3 text-sm bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-semibold disabled:opacity-50">{mode === 'new' ? 'Create' : 'Save'}</button>
+                <button type="button" onClick={() => setMode('idle')} className="py-2 px-3 text-sm bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold">Cancel</button>
+            </form>
+        );
+    }
 
-            {error.news && <p className="text-red-400">{error.news}</p>}
-            {news && (
-                <Card>
-                    <h3 className="text-lg font-semibold text-white mb-4">News Headlines</h3>
-                    <ul className="space-y-2">
-                        {news.map((item, i) => (
-                            <li key={i}><a href={item.link} target="_blank" rel="noopener noreferrer" className="text-indigo-400 hover:underline">{item.title}</a> ({item.source})</li>
-                        ))}
-                    </ul>
-                </Card>
+    return (
+        <div className="flex items-center space-x-2">
+            <label htmlFor="portfolio-switcher" className="sr-only">Portfolio</label>
+            <select id="portfolio-switcher" value={activePortfolioId ?? ''} onChange={e => switchPortfolio(e.target.value)} className="bg-gray-700 border border-gray-600 rounded-md p-2 text-white text-sm">
+                {portfolios.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button type="button" onClick={() => startEditing('new')} className="py-2 px-3 text-sm bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 font-semibold">New</button>
+            <button type="button" onClick={() => startEditing('rename')} className="py-2 px-3 text-sm bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 font-semibold">Rename</button>
+            {portfolios.length > 1 && (
+                <button type="button" onClick={handleDelete} className="py-2 px-3 text-sm bg-gray-700 hover:bg-gray-600 rounded-md text-gray-200 font-semibold">Delete</button>
             )}
         </div>
     );
 };
 
-const AnalysisPage: FC = () => {
-    const { analysis, setAnalysis, transactions, sentiment, stockData, news } = useAppContext();
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState('');
-    
-    const canAnalyze = transactions && sentiment && stockData && news;
+const ALERT_TOAST_MS = 8000;
 
-    const handleAnalysis = async () => {
-        if (!canAnalyze) {
-            setError("Please ensure you have uploaded transactions, logged sentiment, and fetched market data/news before analyzing.");
-            return;
-        }
-        setIsLoading(true);
-        setError('');
+// Evaluates alert rules on every page: whenever market data or recommendations change, and on a timer
+// in the background. Triggered alerts become toasts, history entries and optionally browser notifications.
+const AlertCenter: FC = () => {
+    const { navigate, user, activePortfolioId, transactions, sentimentJournal, stockData, news, analysis, lotMethod } = useAppContext();
+    const [rules, , rulesLoaded] = useStoredSetting<AlertRule[]>('alertRules', []);
+    const [history, setHistory, historyLoaded] = useStoredSetting<AlertEvent[]>('alertHistory', []);
+    const [settings] = useStoredSetting<AlertSettings>('alertSettings', DEFAULT_ALERT_SETTINGS);
+    const [baselines, setBaselines, baselinesLoaded] = useStoredSetting<RecommendationBaselines>('recommendationBaselines', {});
+    const [toasts, setToasts] = useState<AlertEvent[]>([]);
+    const isLoaded = rulesLoaded && historyLoaded && baselinesLoaded;
+    const hasEnabledRules = rules.some(rule => rule.enabled);
+    // The last /analyze input the poller sent, so unchanged inputs aren't analyzed again.
+    const lastPolledInput = useRef<string | null>(null);
 
-        const payload = {
-            user_id: 'default-user',
-            sentiment: sentiment,
-            transaction_history: transactions.map(t => ({...t, transaction_date: t.buy_date, transaction_type: 'buy'})),
-            current_metrics: stockData.map(s => ({ticker: s.ticker, pe_ratio: s.pe_ratio, eps: s.eps})),
-            news_summaries: news.map(n => ({ticker: '', headline: n.title})), // Mocking ticker for news
-        };
-        
-        try {
-            const response = await fetch(`${API_BASE_URL}/analyze`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(payload),
-            });
-            const data = await response.json();
-            if(!response.ok) throw new Error(data.message || "Analysis failed");
-            setAnalysis(data.recommendations);
-        } catch(err: any) {
-            setError(err.message);
-        } finally {
-            setIsLoading(false);
+    // The poller and back-to-back checks read through this ref so they never act on stale state.
+    const latest = useRef({ rules, history, settings, baselines, activePortfolioId, transactions, sentimentJournal, stockData, news, lotMethod });
+    latest.current = { rules, history, settings, baselines, activePortfolioId, transactions, sentimentJournal, stockData, news, lotMethod };
+
+    const notify = (triggered: TriggeredAlert[]) => {
+        const seen = new Set(latest.current.history.map(event => event.key));
+        const events = triggered
+            .filter(alert => !seen.has(alert.key))
+            .map(alert => ({ ...alert, id: createId(), triggeredAt: new Date().toISOString() }));
+        if (events.length === 0) return;
+        latest.current.history = [...events, ...latest.current.history].slice(0, ALERT_HISTORY_LIMIT);
+        setHistory(latest.current.history);
+        setToasts(prev => [...prev, ...events]);
+        if (latest.current.settings.browserNotifications && 'Notification' in window && Notification.permission === 'granted') {
+            events.forEach(event => new Notification(`Andre: ${event.ticker}`, { body: event.message, tag: event.key }));
         }
     };
-    
-    return (
-        <div className="space-y-6">
-            <h1 className="text-3xl font-bold text-white">Analysis my Portfolio</h1>
-            <Card>
-                <button onClick={handleAnalysis} disabled={isLoading || !canAnalyze} className="w-full py-3 px-6 bg-cyan-600 hover:bg-cyan-700 rounded-md text-white font-bold text-lg disabled:opacity-50 disabled:cursor-not-allowed">
-                     {isLoading ? <span className="flex items-center justify-center"><Spinner/></span> : "Analyze My Portfolio"}
-                </button>
-                {!canAnalyze && <p className="text-yellow-400 text-sm mt-4">Please complete all previous steps (upload transactions, log sentiment, get market data and news) to enable analysis.</p>}
-                {error && <p className="text-red-400 mt-4">{error}</p>}
-            </Card>
 
-            {analysis && (
-                <Card>
-                    <h2 className="text-xl font-semibold text-white mb-4">AI Recommendations</h2>
-                    <div className="space-y-4">
-                        {analysis.map((rec, i) => (
-                            <div key={i} className="p-4 bg-gray-700 rounded-lg">
-                                <h3 className="font-bold text-cyan-400 text-lg">{rec.ticker}: <span className="text-white">{rec.recommendation}</span> <span className="text-sm text-gray-400">({rec.confidence} confidence)</span></h3>
-                                <p className="text-gray-300">{rec.reasoning}</p>
-                            </div>
-                        ))}
-                    </div>
-                </Card>
-            )}
+    const checkRecommendations = (portfolioId: string, recommendations: Recommendation[]) => {
+        const { rules, baselines, transactions, lotMethod } = latest.current;
+        const baseline = baselines[portfolioId] ?? {};
+        notify(evaluateRecommendationAlerts(rules, baseline, recommendations, holdingTickers(transactions, lotMethod)));
+        latest.current.baselines = { ...baselines, [portfolioId]: updateBaseline(baseline, recommendations) };
+        setBaselines(latest.current.baselines);
+    };
+
+    useEffect(() => {
+        if (isLoaded && stockData) notify(evaluatePriceAlerts(rules, stockData));
+    }, [isLoaded, rules, stockData]);
+
+    useEffect(() => {
+        if (isLoaded && activePortfolioId && analysis) checkRecommendations(activePortfolioId, analysis);
+    }, [isLoaded, activePortfolioId, analysis]);
+
+    useEffect(() => {
+        if (!isLoaded || !user || settings.pollMinutes === 0 || !hasEnabledRules) return;
+        const controller = new AbortController();
+        const poll = async () => {
+            const { rules, activePortfolioId, transactions, sentimentJournal, stockData, news, lotMethod } = latest.current;
+            const enabled = rules.filter(rule => rule.enabled);
+            const priceTickers = [...new Set(enabled.filter(rule => rule.kind !== 'recommendation-change').map(rule => rule.ticker))];
+            const sentimentEntries = selectSentimentWindow(sentimentJournal, ALERT_SENTIMENT_WINDOW);
+            try {
+                if (priceTickers.length > 0) {
+                    const data = await api.getStockData(priceTickers, controller.signal);
+                    notify(evaluatePriceAlerts(latest.current.rules, data.data));
+                }
+                if (enabled.some(rule => rule.kind === 'recommendation-change') && activePortfolioId && transactions && stockData && news && sentimentEntries.length > 0) {
+                    const payload = buildAnalyzePayload({ userId: user.id, sentimentEntries, transactions, stockData, news, lotMethod });
+                    const input = JSON.stringify(payload);
+                    // Analysis is expensive: skip it when the newest saved run (already checked when it arrived)
+                    // or the previous background check had exactly these inputs.
+                    const runs = await storage.getAllByIndex<AnalysisRun>('analysisRuns', 'portfolioId', activePortfolioId);
+                    const newest = runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+                    if (input === lastPolledInput.current || (newest && JSON.stringify(newest.input) === input)) return;
+                    const data = await api.analyze(payload, () => {}, controller.signal);
+                    lastPolledInput.current = input;
+                    // Drop results for a portfolio the user has since switched away from.
+                    if (latest.current.activePortfolioId === activePortfolioId) checkRecommendations(activePortfolioId, data.recommendations);
+                }
+            } catch (err) {
+                if (!isAbortError(err)) console.warn('Background alert check failed', err);
+            }
+        };
+        const timer = setInterval(poll, settings.pollMinutes * 60 * 1000);
+        return () => {
+            clearInterval(timer);
+            controller.abort();
+        };
+    }, [isLoaded, user, settings.pollMinutes, hasEnabledRules]);
+
+    useEffect(() => {
+        if (toasts.length === 0) return;
+        const timer = setTimeout(() => setToasts(prev => prev.slice(1)), ALERT_TOAST_MS);
+        return () => clearTimeout(timer);
+    }, [toasts]);
+
+    const dismiss = (id: string) => setToasts(prev => prev.filter(toast => toast.id !== id));
+
+    return (
+        <div role="status" aria-live="polite" className="no-print fixed bottom-4 right-4 z-20 w-80 space-y-2">
+            {toasts.map(toast => (
+                <div key={toast.id} className="flex items-start space-x-2 bg-gray-700 border border-cyan-500 rounded-lg shadow-lg p-3">
+                    <button type="button" onClick={() => { dismiss(toast.id); navigate('/alerts'); }} className="flex-grow text-left text-sm text-white">
+                        <span className="block text-xs font-semibold text-cyan-300">🔔 {toast.ticker}</span>
+                        {toast.message}
+                    </button>
+                    <button type="button" onClick={() => dismiss(toast.id)} className="text-gray-400 hover:text-white" aria-label="Dismiss alert">✕</button>
+                </div>
+            ))}
         </div>
     );
 };
 
-// --- LAYOUT COMPONENTS ---
+const OUTBOX_RETRY_MS = 60 * 1000;
+
+// Sends sentiment entries written offline once the backend is reachable again: on start, whenever the browser
+// comes back online and every minute. Sent entries take the text the backend echoed, like a live submission.
+const SentimentOutboxRelay: FC = () => {
+    const { activePortfolioId, sentimentJournal, setSentimentJournal } = useAppContext();
+    // The relay outlives renders, so it reads the journal from here rather than a stale closure.
+    const latest = useRef({ activePortfolioId, sentimentJournal, setSentimentJournal });
+    latest.current = { activePortfolioId, sentimentJournal, setSentimentJournal };
+
+    useEffect(() => {
+        let isMounted = true;
+        const flush = async () => {
+            if (!navigator.onLine) return;
+            try {
+                const sent = await flushSentimentOutbox();
+                const settle = (journal: SentimentEntry[]) => journal.map(entry => {
+                    const match = sent.find(s => s.item.id === entry.id);
+                    if (!match) return entry;
+                    const { queued, ...rest } = entry;
+                    return { ...rest, text: match.text ?? entry.text };
+                });
+                // Once unmounted the ref no longer tracks the journal, so everything is settled in the saved records.
+                const { sentimentJournal, setSentimentJournal } = latest.current;
+                const activePortfolioId = isMounted ? latest.current.activePortfolioId : null;
+                if (sent.some(s => s.item.portfolioId === activePortfolioId)) setSentimentJournal(settle(sentimentJournal));
+                // Entries from other portfolios are settled in their saved records.
+                for (const portfolioId of new Set(sent.map(s => s.item.portfolioId).filter(id => id !== activePortfolioId))) {
+                    const record = await storage.get<StoredPortfolioRecord>('portfolios', portfolioId);
+                    if (!record) continue;
+                    const migrated = migratePortfolio(record);
+                    await storage.put('portfolios', { ...migrated, data: { ...migrated.data, sentimentJournal: settle(migrated.data.sentimentJournal) } });
+                }
+            } catch (err) {
+                console.error('Could not send queued sentiment entries.', err);
+            }
+        };
+        flush();
+        window.addEventListener('online', flush);
+        const timer = setInterval(flush, OUTBOX_RETRY_MS);
+        return () => {
+            isMounted = false;
+            window.removeEventListener('online', flush);
+            clearInterval(timer);
+        };
+    }, []);
+
+    return null;
+};
+
 const Header: FC = () => {
-    const { logout } = useAppContext();
+    const { clearPortfolio, user, logout } = useAppContext();
+    const isOnline = useOnlineStatus();
+    const handleClear = () => {
+        if (window.confirm('Clear all transactions, sentiment, market data and analysis from this portfolio?')) clearPortfolio();
+    };
     return (
         <header className="bg-gray-800/80 backdrop-blur-md shadow-md p-4 flex justify-between items-center sticky top-0 z-10">
             <div className="flex items-center space-x-3">
                 <span className="text-2xl">📈</span>
                 <h1 className="text-xl font-bold text-white">Andre</h1>
+                {appConfig.mockApi && <span className="py-0.5 px-2 text-xs rounded-full bg-yellow-500/20 text-yellow-300 font-semibold">Mock data</span>}
+                {!isOnline && <span className="py-0.5 px-2 text-xs rounded-full bg-gray-600 text-gray-200 font-semibold">Offline</span>}
+            </div>
+            <div className="flex items-center space-x-4">
+                <PortfolioSwitcher />
+                <button onClick={handleClear} className="py-2 px-4 text-sm bg-red-600 hover:bg-red-700 rounded-md text-white font-semibold">
+                    Clear Portfolio
+                </button>
+                <span className="text-sm text-gray-400" title={user?.email}>{user?.name || user?.email}</span>
+                <button onClick={logout} className="py-2 px-4 text-sm bg-gray-600 hover:bg-gray-500 rounded-md text-white font-semibold">
+                    Log Out
+                </button>
             </div>
-            <button onClick={logout} className="py-2 px-4 text-sm bg-red-600 hover:bg-red-700 rounded-md text-white font-semibold">
-                Logout
-            </button>
         </header>
     );
 };
@@ -386,11 +5210,14 @@ const Nav: FC<{ currentPage: string }> = ({ currentPage }) => {
         { path: '/sentiment', title: "What's Up" },
         { path: '/market-data', title: 'Get Market Data' },
         { path: '/analysis', title: 'Analysis my Portfolio' },
+        { path: '/scenarios', title: 'What If' },
+        { path: '/performance', title: 'Performance & Risk' },
+        { path: '/alerts', title: 'Alerts' },
     ];
     return (
         <nav className="w-64 bg-gray-800 p-4 space-y-2 flex-shrink-0">
             {navItems.map(item => (
-                <button key={item.path} onClick={() => navigate(item.path)} className={`w-full text-left p-3 rounded-md font-semibold ${currentPage === item.path ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+                <button key={item.path} onClick={() => navigate(item.path)} className={`w-full text-left p-3 rounded-md font-semibold ${currentPage === item.path || currentPage.startsWith(`${item.path}/`) ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
                     {item.title}
                 </button>
             ))}
@@ -400,6 +5227,45 @@ const Nav: FC<{ currentPage: string }> = ({ currentPage }) => {
 
 // --- MAIN APP COMPONENT ---
 
+type RouteDefinition = {
+    pattern: string;
+    // How the guard notice refers to the page.
+    label: string;
+    render: (params: RouteParams, path: string) => React.ReactNode;
+    // Reachable without logging in; everything else redirects to /login.
+    isPublic?: boolean;
+    // Rendered on its own, without the nav and header.
+    fullScreen?: boolean;
+    // Steps that must be done first; the guard redirects to the first one that isn't.
+    requires?: OnboardingStepId[];
+};
+
+const ROUTES: RouteDefinition[] = [
+    { pattern: '/login', label: 'the login page', render: () => <LoginPage />, isPublic: true, fullScreen: true },
+    { pattern: '/upload', label: 'the upload page', render: () => <UploadPage />, isPublic: true, fullScreen: true },
+    { pattern: '/dashboard', label: 'the dashboard', render: () => <DashboardPage />, requires: ['upload'] },
+    { pattern: '/sentiment', label: 'the sentiment journal', render: () => <SentimentPage />, requires: ['upload'] },
+    { pattern: '/market-data', label: 'market data', render: () => <MarketDataPage />, requires: ['upload'] },
+    { pattern: '/ticker/:symbol', label: 'this ticker', render: ({ symbol }) => <TickerPage symbol={symbol} /> },
+    { pattern: '/analysis', label: 'analysis', render: () => <AnalysisPage />, requires: ['upload', 'sentiment', 'market-data', 'news'] },
+    // A saved run shows the inputs it was made with, so it doesn't need today's data.
+    { pattern: '/analysis/:runId', label: 'this analysis run', render: ({ runId }) => <AnalysisPage runId={runId} />, requires: ['upload'] },
+    { pattern: '/scenarios', label: 'What If', render: () => <ScenarioPage />, requires: ['upload'] },
+    { pattern: '/performance', label: 'Performance & Risk', render: () => <PerformancePage />, requires: ['upload', 'market-data'] },
+    { pattern: '/report', label: 'the report', render: () => <ReportPage />, requires: ['upload'] },
+    { pattern: '/alerts', label: 'alerts', render: () => <AlertsPage />, requires: ['upload'] },
+];
+
+const NOT_FOUND_ROUTE: RouteDefinition = { pattern: '', label: 'this page', render: (_, path) => <NotFoundPage path={path} />, isPublic: true, fullScreen: true };
+
+const matchRoute = (path: string) => {
+    for (const route of ROUTES) {
+        const params = matchPath(route.pattern, path);
+        if (params) return { route, params };
+    }
+    return { route: NOT_FOUND_ROUTE, params: {} };
+};
+
 // Helper to get the current page from the URL hash.
 const getCurrentPage = () => {
     // Default to '/upload' if hash is empty, '#', or just '/'
@@ -413,10 +5279,23 @@ const getCurrentPage = () => {
 const App: FC = () => {
     const [page, setPage] = useState(getCurrentPage());
     const [transactions, setTransactions] = useState<Transaction[] | null>(null);
-    const [sentiment, setSentiment] = useState('');
+    const [sentimentJournal, setSentimentJournal] = useState<SentimentEntry[]>([]);
     const [stockData, setStockData] = useState<StockData[] | null>(null);
     const [news, setNews] = useState<NewsHeadline[] | null>(null);
     const [analysis, setAnalysis] = useState<Recommendation[] | null>(null);
+    const [lotMethod, setLotMethod] = useState<LotMethod>('fifo');
+    const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+    const [fetchedAt, setFetchedAt] = useState<FetchTimes>(emptyPortfolioData().fetchedAt);
+    const [fx, setFx] = useState<FxTable>({ base: DEFAULT_CURRENCY, rates: {} });
+    const [fxError, setFxError] = useState('');
+    const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([]);
+    const [activePortfolioId, setActivePortfolioId] = useState<string | null>(null);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [user, setUser] = useState<AuthUser | null>(authSession?.user ?? null);
+    // Where to go after logging in, when the user was bounced off a protected page.
+    const [returnTo, setReturnTo] = useState('/dashboard');
+    // Why a guard redirected to `path`; shown until the user moves on.
+    const [guardNotice, setGuardNotice] = useState<{ path: string; message: string } | null>(null);
 
     // Effect to handle browser navigation (back/forward buttons) by listening to hash changes.
     useEffect(() => {
@@ -432,59 +5311,279 @@ const App: FC = () => {
         window.location.hash = `#${newPage}`;
     };
 
+    useEffect(() => subscribeAuth(session => setUser(session?.user ?? null)), []);
+
+    const { route, params } = matchRoute(page);
+    const needsLogin = !user && !route.isPublic;
+    // Until the saved portfolio is loaded every step looks undone, so guards wait for it.
+    const missing = useMemo(() => (isHydrated && user && route.requires
+        ? missingStep(route.requires, { transactions, sentimentJournal, stockData, news, analysis })
+        : null), [isHydrated, user, route, transactions, sentimentJournal, stockData, news, analysis]);
+
+    useEffect(() => {
+        if (needsLogin) {
+            setReturnTo(page);
+            navigate('/login');
+        } else if (user && page === '/login') {
+            navigate(returnTo);
+        } else if (missing) {
+            setGuardNotice({ path: missing.path, message: `To open ${route.label}, ${missing.action} first.` });
+            navigate(missing.path);
+        }
+    }, [needsLogin, user, page, missing]);
+
+    const login = async (payload: LoginRequest) => {
+        setAuthSession(toAuthSession(await api.login(payload)));
+    };
+
+    const signup = async (payload: SignupRequest) => {
+        setAuthSession(toAuthSession(await api.signup(payload)));
+    };
+
     const logout = () => {
-        setTransactions(null);
-        setSentiment('');
-        setStockData(null);
-        setNews(null);
-        setAnalysis(null);
+        setAuthSession(null);
+        navigate('/login');
+    };
+
+    const applyPortfolioData = (data: PortfolioData) => {
+        setTransactions(data.transactions);
+        setSentimentJournal(data.sentimentJournal);
+        setStockData(data.stockData);
+        setNews(data.news);
+        setAnalysis(data.analysis);
+        setLotMethod(data.lotMethod);
+        setBaseCurrency(data.baseCurrency);
+        setFetchedAt(data.fetchedAt);
+    };
+
+    // Fresh data from the backend is stamped so it can be labelled stale later; clearing it clears the stamp.
+    const stamp = (kind: keyof FetchTimes, value: unknown) =>
+        setFetchedAt(prev => ({ ...prev, [kind]: value === null ? null : new Date().toISOString() }));
+    const updateStockData = (data: StockData[] | null) => { setStockData(data); stamp('stockData', data); };
+    const updateNews = (headlines: NewsHeadline[] | null) => { setNews(headlines); stamp('news', headlines); };
+    const updateAnalysis = (recommendations: Recommendation[] | null) => { setAnalysis(recommendations); stamp('analysis', recommendations); };
+
+    const applyPortfolio = (record: PortfolioRecord) => {
+        setActivePortfolioId(record.id);
+        applyPortfolioData(record.data);
+    };
+
+    // Restore the last active portfolio, creating a first one on a fresh install. Signing in or out switches
+    // to that account's database (see openDatabase), so everything is loaded again from there.
+    useEffect(() => {
+        let cancelled = false;
+        setIsHydrated(false);
+        (async () => {
+            let records: PortfolioRecord[] = [];
+            let savedActiveId: string | undefined;
+            try {
+                await adoptSignedOutData();
+                records = (await storage.getAll<StoredPortfolioRecord>('portfolios')).map(migratePortfolio);
+                savedActiveId = await storage.get<string>('settings', 'activePortfolioId');
+            } catch (err) {
+                console.error('Could not load saved portfolios; changes will not persist.', err);
+            }
+            if (records.length === 0) records = [createPortfolioRecord('My Portfolio')];
+            if (cancelled) return;
+            const active = records.find(r => r.id === savedActiveId) ?? records[0];
+            setPortfolios(records.map(({ id, name }) => ({ id, name })));
+            applyPortfolio(active);
+            setIsHydrated(true);
+            // A bare URL lands on the dashboard when there is already data to show.
+            if (!window.location.hash.replace(/^#\/?/, '') && active.data.transactions) navigate('/dashboard');
+        })();
+        return () => { cancelled = true; };
+    }, [user?.id]);
+
+    // Save the active portfolio whenever any of its data changes.
+    useEffect(() => {
+        const active = portfolios.find(p => p.id === activePortfolioId);
+        if (!isHydrated || !active) return;
+        const record: PortfolioRecord = {
+            id: active.id,
+            name: active.name,
+            schemaVersion: PORTFOLIO_SCHEMA_VERSION,
+            updatedAt: new Date().toISOString(),
+            data: { transactions, sentimentJournal, stockData, news, analysis, lotMethod, baseCurrency, fetchedAt },
+        };
+        storage.put('portfolios', record).catch(err => console.error('Could not save portfolio.', err));
+    }, [isHydrated, activePortfolioId, portfolios, transactions, sentimentJournal, stockData, news, analysis, lotMethod, baseCurrency, fetchedAt]);
+
+    // Load rates for every other currency the portfolio uses; the previous table stays in use until they arrive.
+    const fxNeeds = fxRequirements(baseCurrency, transactions, stockData);
+    const fxKey = `${baseCurrency}:${fxNeeds.currencies.join(',')}:${fxNeeds.start}`;
+    useEffect(() => {
+        setFxError('');
+        if (fxNeeds.currencies.length === 0) {
+            setFx({ base: baseCurrency, rates: {} });
+            return;
+        }
+        if (!user) return;
+        const controller = new AbortController();
+        loadFxRates(baseCurrency, fxNeeds.currencies, fxNeeds.start, controller.signal)
+            .then(setFx)
+            .catch(err => {
+                if (isAbortError(err)) return;
+                setFx({ base: baseCurrency, rates: {} });
+                setFxError(err.message || 'Could not load exchange rates.');
+            });
+        return () => controller.abort();
+    }, [user, fxKey]);
+
+    useEffect(() => {
+        if (!isHydrated || !activePortfolioId) return;
+        storage.put('settings', activePortfolioId, 'activePortfolioId').catch(err => console.error('Could not save settings.', err));
+    }, [isHydrated, activePortfolioId]);
+
+    const switchPortfolio = async (id: string) => {
+        const record = await storage.get<StoredPortfolioRecord>('portfolios', id);
+        if (record) applyPortfolio(migratePortfolio(record));
+    };
+
+    const createPortfolio = async (name: string) => {
+        const record = createPortfolioRecord(name);
+        await storage.put('portfolios', record);
+        setPortfolios(prev => [...prev, { id: record.id, name }]);
+        applyPortfolio(record);
         navigate('/upload');
     };
-    
+
+    const renamePortfolio = async (id: string, name: string) => {
+        setPortfolios(prev => prev.map(p => (p.id === id ? { ...p, name } : p)));
+    };
+
+    const deletePortfolio = async (id: string) => {
+        const remaining = portfolios.filter(p => p.id !== id);
+        if (remaining.length === 0) return;
+        // Load the replacement first so the list and the active data change in a single render.
+        const next = id === activePortfolioId ? await storage.get<StoredPortfolioRecord>('portfolios', remaining[0].id) : undefined;
+        await storage.delete('portfolios', id);
+        for (const store of ['analysisRuns', 'conversations', 'outbox'] as const) {
+            const records = await storage.getAllByIndex<{ id: string }>(store, 'portfolioId', id);
+            await Promise.all(records.map(record => storage.delete(store, record.id)));
+        }
+        await storage.delete('settings', `scenario:${id}`);
+        setPortfolios(remaining);
+        if (next) applyPortfolio(migratePortfolio(next));
+    };
+
+    const clearPortfolio = () => {
+        applyPortfolioData({ ...emptyPortfolioData(), lotMethod, baseCurrency });
+        navigate('/upload');
+    };
+
+    // Imports always create a new portfolio (with fresh ids), so restoring never overwrites anything.
+    const importSession = async (dump: SessionExport) => {
+        const name = portfolios.some(p => p.name === dump.portfolio.name) ? `${dump.portfolio.name} (imported)` : dump.portfolio.name;
+        const record: PortfolioRecord = { ...migratePortfolio(dump.portfolio), id: createId(), name, updatedAt: new Date().toISOString() };
+        const runIds = new Map(dump.analysisRuns.map(run => [run.id, createId()]));
+        await storage.put('portfolios', record);
+        await Promise.all([
+            ...dump.analysisRuns.map(run => storage.put('analysisRuns', { ...run, id: runIds.get(run.id), portfolioId: record.id })),
+            ...dump.conversations.map(c => storage.put('conversations', {
+                ...c, id: createId(), portfolioId: record.id, runId: c.runId === null ? null : runIds.get(c.runId) ?? null,
+            })),
+        ]);
+        if (dump.scenario.length > 0) await storage.put('settings', dump.scenario, `scenario:${record.id}`);
+        setPortfolios(prev => [...prev, { id: record.id, name }]);
+        applyPortfolio(record);
+        navigate('/dashboard');
+    };
+
     const contextValue = {
         navigate,
+        user,
+        login,
+        signup,
         logout,
+        portfolios,
+        activePortfolioId,
+        switchPortfolio,
+        createPortfolio,
+        renamePortfolio,
+        deletePortfolio,
+        clearPortfolio,
+        importSession,
         transactions, setTransactions,
-        sentiment, setSentiment,
-        stockData, setStockData,
-        news, setNews,
-        analysis, setAnalysis,
+        sentimentJournal, setSentimentJournal,
+        stockData, setStockData: updateStockData,
+        news, setNews: updateNews,
+        analysis, setAnalysis: updateAnalysis,
+        lotMethod, setLotMethod,
+        baseCurrency, setBaseCurrency,
+        fetchedAt,
+        fx,
+        fxError,
     };
 
-    const renderPage = () => {
-        switch(page) {
-            case '/dashboard': return <DashboardPage />;
-            case '/sentiment': return <SentimentPage />;
-            case '/market-data': return <MarketDataPage />;
-            case '/analysis': return <AnalysisPage />;
-            default: return <UploadPage />;
-        }
-    };
-    
-    const isUploadPage = page === '/upload';
+    if (!isHydrated || needsLogin || missing) {
+        return <div className="flex items-center justify-center h-full"><Spinner /></div>;
+    }
+
+    const notice = guardNotice?.path === page && (
+        <div role="alert" className="no-print flex items-center justify-between bg-yellow-500/10 border border-yellow-500/40 text-yellow-300 text-sm rounded-md px-4 py-2">
+            <span>{guardNotice.message}</span>
+            <button type="button" onClick={() => setGuardNotice(null)} className="ml-4 hover:text-white" aria-label="Dismiss">✕</button>
+        </div>
+    );
 
     return (
         <AppContext.Provider value={contextValue}>
-            {isUploadPage ? (
-                <UploadPage />
+            {route.fullScreen ? (
+                <>
+                    {notice && <div className="fixed top-4 left-1/2 -translate-x-1/2 z-20">{notice}</div>}
+                    {route.render(params, page)}
+                </>
             ) : (
                 <div className="flex h-full">
                     <Nav currentPage={page} />
                     <div className="flex-1 flex flex-col">
                         <Header />
                         <main className="flex-1 p-8 overflow-y-auto">
-                           {renderPage()}
+                            {notice && <div className="mb-6">{notice}</div>}
+                            {route.render(params, page)}
                         </main>
                     </div>
                 </div>
             )}
+            {user && <AlertCenter />}
+            {user && <SentimentOutboxRelay />}
         </AppContext.Provider>
     );
 };
 
-const root = ReactDOM.createRoot(document.getElementById('root') as HTMLElement);
-root.render(
-    <React.StrictMode>
-        <App />
-    </React.StrictMode>
-);
\ No newline at end of file
+// The test suite imports this module into a document without #root.
+const rootElement = document.getElementById('root');
+if (rootElement) {
+    ReactDOM.createRoot(rootElement).render(
+        <React.StrictMode>
+            <App />
+        </React.StrictMode>
+    );
+    // Caches the app shell so the app opens without a network; data comes from IndexedDB as usual.
+    // sw.js only exists in a build (see vite.config.ts), so the dev server runs without it.
+    if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+        window.addEventListener('load', () => {
+            navigator.serviceWorker.register('./sw.js').catch(err => console.error('Could not register the service worker.', err));
+        });
+    }
+}
+
+// Used by the test suite in tests/.
+export {
+    ApiError,
+    AppContext,
+    buildAnalyzePayload,
+    selectSentimentWindow,
+    readAnalysisStream,
+    diffRuns,
+    parseSessionExport,
+    fxRate,
+    toBaseCurrency,
+    UploadPage,
+    SentimentPage,
+    MarketDataPage,
+    AnalysisPage,
+    SentimentOutboxRelay,
+};
+export type { AppContextType, AnalysisRun, AnalyzeRequest, FxTable, NewsHeadline, Recommendation, SentimentEntry, StockData, Transaction };
@@ -0,0 +1,10 @@
+// Runtime configuration for Andre, loaded before the app bundle.
+// Edit this file on the deployed site to point at a different backend without rebuilding.
+// Any value can be overridden per visit with query parameters: ?api=https://host or ?mock=1.
+window.ANDRE_CONFIG = {
+    apiBaseUrl: 'http://localhost:8000',
+    // Serve fixture data from inside the browser instead of calling the backend.
+    mockApi: false,
+    timeoutMs: 15000,
+    maxRetries: 2,
+};
@@ -0,0 +1,56 @@
+// Service worker: keeps the app itself available offline. Data from the backend is cached by the app
+// in IndexedDB, so API requests (fetch() calls, which have no destination) are never intercepted.
+// Paths are relative to this file so the app also works from a GitHub Pages project path.
+// This is a template: `vite build` fills in the placeholders with the built files (see vite.config.ts).
+const CACHE = __CACHE_NAME__;
+const APP_SHELL = __APP_SHELL__;
+// Past this a slow network (say, on a train) loses to the cached copy; the copy is still refreshed.
+const NETWORK_TIMEOUT_MS = 4000;
+const CDN_SCRIPTS = ['https://cdn.tailwindcss.com'];
+const CDN_ORIGINS = CDN_SCRIPTS.map(url => new URL(url).origin);
+
+// CDN scripts come back opaque, which addAll refuses, so they are stored one by one; without them the app
+// still works offline, just unstyled, so a failure there doesn't stop the install.
+const precacheCdnScripts = cache => Promise.all(CDN_SCRIPTS.map(url =>
+    fetch(url, { mode: 'no-cors' }).then(response => cache.put(url, response)).catch(() => {})));
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(CACHE)
+        .then(cache => Promise.all([cache.addAll(APP_SHELL), precacheCdnScripts(cache)]))
+        .then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(caches.keys()
+        .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+        .then(() => self.clients.claim()));
+});
+
+const isAppRequest = request => {
+    if (request.method !== 'GET') return false;
+    const url = new URL(request.url);
+    if (CDN_ORIGINS.includes(url.origin)) return true;
+    const scope = new URL(self.registration.scope);
+    return url.origin === scope.origin && url.pathname.startsWith(scope.pathname) && (request.mode === 'navigate' || request.destination !== '');
+};
+
+// Network first, so a redeploy or an edited config.js shows up straight away; the cache answers offline.
+// The CDN's responses are opaque (status 0) but still fine to cache and replay.
+const networkFirst = async request => {
+    const cache = await caches.open(CACHE);
+    const fromNetwork = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (!cached && request.mode === 'navigate') {
+        return fromNetwork.catch(async () => (await cache.match('./index.html')) ?? Response.error());
+    }
+    if (!cached) return fromNetwork;
+    const timeout = new Promise(resolve => setTimeout(() => resolve(cached), NETWORK_TIMEOUT_MS));
+    return Promise.race([fromNetwork.catch(() => cached), timeout]);
+};
+
+self.addEventListener('fetch', event => {
+    if (isAppRequest(event.request)) event.respondWith(networkFirst(event.request));
+});
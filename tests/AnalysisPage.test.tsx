@@ -0,0 +1,95 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AnalysisPage, type AnalyzeRequest, type SentimentEntry } from '../index';
+import { headlineFixture, installFakeBackend, recommendationFixture, stockFixture } from './fakeBackend';
+import { renderWithApp, TRANSACTIONS } from './renderWithApp';
+
+let backend: ReturnType<typeof installFakeBackend>;
+beforeEach(() => {
+    backend = installFakeBackend();
+});
+
+const JOURNAL: SentimentEntry[] = [
+    { id: 'entry-1', createdAt: new Date().toISOString(), text: 'Confident in big tech', score: 'bullish', tickers: ['AAPL'] },
+];
+
+const READY = {
+    transactions: TRANSACTIONS,
+    sentimentJournal: JOURNAL,
+    stockData: [stockFixture('AAPL'), stockFixture('MSFT')],
+    news: [{ ...headlineFixture('AAPL'), tickers: ['AAPL'] }],
+};
+
+const analyzeButton = () => screen.getByRole('button', { name: 'Analyze My Portfolio' }) as HTMLButtonElement;
+
+describe('AnalysisPage', () => {
+    it('sends the portfolio for analysis, shows the recommendations and saves the run', async () => {
+        const user = userEvent.setup();
+        const page = renderWithApp(<AnalysisPage />, READY);
+
+        await user.click(analyzeButton());
+
+        expect(await screen.findByText('AAPL looks fairly valued.')).toBeTruthy();
+        expect(screen.getByText('MSFT looks fairly valued.')).toBeTruthy();
+        expect(await screen.findByText('Run History')).toBeTruthy();
+        const payload = backend.requestsTo('/analyze')[0].body as AnalyzeRequest;
+        expect(payload.user_id).toBe('user-1');
+        expect(payload.current_metrics.map(m => m.ticker)).toEqual(['AAPL', 'MSFT']);
+        expect(payload.news_summaries).toEqual([{ ticker: 'AAPL', headline: 'AAPL beats earnings estimates' }]);
+        expect(page.context().analysis).toEqual([recommendationFixture('AAPL'), recommendationFixture('MSFT')]);
+        expect(page.navigate).toHaveBeenCalledWith(expect.stringMatching(/^\/analysis\/.+/));
+    });
+
+    it('shows streamed recommendations', async () => {
+        const user = userEvent.setup();
+        const events = [recommendationFixture('AAPL'), { ...recommendationFixture('MSFT'), recommendation: 'Sell' }]
+            .map(rec => `event: recommendation\ndata: ${JSON.stringify(rec)}\n\n`).join('');
+        backend.respond('/analyze', () => new Response(`${events}event: done\ndata: {}\n\n`, { headers: { 'Content-Type': 'text/event-stream' } }));
+        const page = renderWithApp(<AnalysisPage />, READY);
+
+        await user.click(analyzeButton());
+
+        expect(await screen.findByText('Sell')).toBeTruthy();
+        expect(page.context().analysis?.map(r => r.recommendation)).toEqual(['Hold', 'Sell']);
+    });
+
+    it('shows the missing steps instead of analyzing an incomplete portfolio', async () => {
+        const user = userEvent.setup();
+        const page = renderWithApp(<AnalysisPage />, { transactions: TRANSACTIONS });
+
+        expect(analyzeButton().disabled).toBe(true);
+        await user.click(screen.getByRole('button', { name: 'log your sentiment' }));
+
+        expect(page.navigate).toHaveBeenCalledWith('/sentiment');
+        expect(backend.requestsTo('/analyze')).toHaveLength(0);
+    });
+
+    it('shows the message of a rejected analysis', async () => {
+        const user = userEvent.setup();
+        backend.fail('/analyze', 422, 'current_metrics must not be empty');
+        const page = renderWithApp(<AnalysisPage />, READY);
+
+        await user.click(analyzeButton());
+
+        expect(await screen.findByText('current_metrics must not be empty')).toBeTruthy();
+        expect(page.context().analysis).toBeNull();
+        expect(analyzeButton().disabled).toBe(false);
+    });
+
+    it('reports an unreachable server', async () => {
+        const user = userEvent.setup();
+        backend.disconnect('/analyze');
+        const page = renderWithApp(<AnalysisPage />, READY);
+
+        await user.click(analyzeButton());
+
+        expect(await screen.findByText('Could not reach the server at http://andre.test.')).toBeTruthy();
+        expect(page.context().analysis).toBeNull();
+    });
+
+    it('says so when a linked run does not exist', async () => {
+        renderWithApp(<AnalysisPage runId="no-such-run" />, READY);
+        expect(await screen.findByText('This analysis run no longer exists.')).toBeTruthy();
+    });
+});
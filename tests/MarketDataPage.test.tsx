@@ -0,0 +1,75 @@
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MarketDataPage } from '../index';
+import { installFakeBackend } from './fakeBackend';
+import { renderWithApp, TRANSACTIONS } from './renderWithApp';
+
+let backend: ReturnType<typeof installFakeBackend>;
+beforeEach(() => {
+    backend = installFakeBackend();
+});
+
+describe('MarketDataPage', () => {
+    it('fetches stock data for the current holdings', async () => {
+        const user = userEvent.setup();
+        const page = renderWithApp(<MarketDataPage />, { transactions: TRANSACTIONS });
+
+        await user.click(screen.getByRole('button', { name: 'Get Stock Data' }));
+
+        const financials = (await screen.findByText('Stock Financials')).parentElement!;
+        expect(within(financials).getByRole('button', { name: 'AAPL' })).toBeTruthy();
+        expect(within(financials).getAllByText('P/E Ratio: 25')).toHaveLength(2);
+        expect(backend.requestsTo('/get-stock-data')[0].query.get('tickers')).toBe('AAPL,MSFT');
+        expect(page.context().stockData?.map(s => s.ticker)).toEqual(['AAPL', 'MSFT']);
+    });
+
+    it('fetches news and attributes headlines to the tickers they mention', async () => {
+        const user = userEvent.setup();
+        const page = renderWithApp(<MarketDataPage />, { transactions: TRANSACTIONS });
+
+        await user.click(screen.getByRole('button', { name: 'Get News' }));
+
+        expect(await screen.findByText('MSFT beats earnings estimates')).toBeTruthy();
+        expect(page.context().news?.map(h => h.tickers)).toEqual([['AAPL'], ['MSFT']]);
+    });
+
+    it('uses the tickers picked by the user and disables fetching without any', async () => {
+        const user = userEvent.setup();
+        renderWithApp(<MarketDataPage />);
+
+        for (const ticker of ['AAPL', 'GOOG', 'MSFT']) await user.click(screen.getByRole('button', { name: `Remove ${ticker}` }));
+        expect((screen.getByRole('button', { name: 'Get Stock Data' }) as HTMLButtonElement).disabled).toBe(true);
+
+        await user.type(screen.getByLabelText('Tickers'), 'tsla,');
+        await user.click(screen.getByRole('button', { name: 'Get Stock Data' }));
+
+        expect(await screen.findByText('Stock Financials')).toBeTruthy();
+        expect(backend.requestsTo('/get-stock-data')[0].query.get('tickers')).toBe('TSLA');
+    });
+
+    it('shows the message when the backend rejects the tickers', async () => {
+        const user = userEvent.setup();
+        backend.fail('/get-stock-data', 422, 'Unknown ticker: MSFT');
+        const page = renderWithApp(<MarketDataPage />, { transactions: TRANSACTIONS });
+
+        await user.click(screen.getByRole('button', { name: 'Get Stock Data' }));
+
+        expect(await screen.findByText('Unknown ticker: MSFT')).toBeTruthy();
+        expect(page.context().stockData).toBeNull();
+        expect(screen.queryByText('Stock Financials')).toBeNull();
+    });
+
+    it('reports an unreachable server without affecting the other fetch', async () => {
+        const user = userEvent.setup();
+        backend.disconnect('/get-news');
+        const page = renderWithApp(<MarketDataPage />, { transactions: TRANSACTIONS });
+
+        await user.click(screen.getByRole('button', { name: 'Get News' }));
+        expect(await screen.findByText('Could not reach the server at http://andre.test.')).toBeTruthy();
+        expect(page.context().news).toBeNull();
+
+        await user.click(screen.getByRole('button', { name: 'Get Stock Data' }));
+        expect(await screen.findByText('Stock Financials')).toBeTruthy();
+    });
+});
@@ -0,0 +1,116 @@
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SentimentOutboxRelay, SentimentPage } from '../index';
+import { installFakeBackend, jsonResponse } from './fakeBackend';
+import { renderWithApp } from './renderWithApp';
+
+let backend: ReturnType<typeof installFakeBackend>;
+beforeEach(() => {
+    backend = installFakeBackend();
+});
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const sentimentInput = () => screen.getByPlaceholderText(/bullish on tech/);
+
+describe('SentimentPage', () => {
+    it('submits the entry with its score and tickers and adds it to the journal', async () => {
+        const user = userEvent.setup();
+        backend.respond('/get-sentiment', () => jsonResponse({ sentiment: 'Optimistic about chips' }));
+        const page = renderWithApp(<SentimentPage />);
+
+        await user.type(sentimentInput(), 'bullish on semis');
+        await user.click(screen.getByRole('radio', { name: 'Bullish' }));
+        await user.type(screen.getByLabelText('Tickers (optional)'), 'nvda,');
+        await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+        expect(await screen.findByText('Sentiment captured: "Optimistic about chips"')).toBeTruthy();
+        expect(backend.requestsTo('/get-sentiment')[0].body).toEqual({ user_id: 'user-1', sentiment: 'bullish on semis', score: 'bullish', tickers: ['NVDA'] });
+        expect(page.context().sentimentJournal).toMatchObject([{ text: 'Optimistic about chips', score: 'bullish', tickers: ['NVDA'] }]);
+        expect(screen.getByText('Journal')).toBeTruthy();
+        expect((sentimentInput() as HTMLInputElement).value).toBe('');
+    });
+
+    it('rejects malformed tickers without submitting them', async () => {
+        const user = userEvent.setup();
+        renderWithApp(<SentimentPage />);
+
+        await user.type(screen.getByLabelText('Tickers (optional)'), '12ab,');
+
+        expect(screen.getByText('Not a valid ticker: 12AB')).toBeTruthy();
+        expect(screen.queryByRole('button', { name: 'Remove 12AB' })).toBeNull();
+        expect(backend.requestsTo('/get-sentiment')).toHaveLength(0);
+    });
+
+    it('shows the message of a rejected entry and keeps the journal unchanged', async () => {
+        const user = userEvent.setup();
+        backend.fail('/get-sentiment', 422, 'Sentiment text is too short');
+        const page = renderWithApp(<SentimentPage />);
+
+        await user.type(sentimentInput(), 'ok');
+        await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+        expect(await screen.findByText('Sentiment text is too short')).toBeTruthy();
+        expect(page.context().sentimentJournal).toEqual([]);
+        expect((sentimentInput() as HTMLInputElement).value).toBe('ok');
+    });
+
+    it('queues the entry while the server is unreachable and sends it once it is back', async () => {
+        const user = userEvent.setup();
+        backend.disconnect('/get-sentiment');
+        const page = renderWithApp(<><SentimentPage /><SentimentOutboxRelay /></>);
+
+        await user.type(sentimentInput(), 'worried about rates');
+        await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+        expect(await screen.findByText(/saved on this device and will be sent when the server is reachable again/)).toBeTruthy();
+        expect(page.context().sentimentJournal).toMatchObject([{ text: 'worried about rates', queued: true }]);
+        expect(screen.getByText('Waiting to send')).toBeTruthy();
+
+        backend.respond('/get-sentiment', () => jsonResponse({ sentiment: 'Worried about interest rates' }));
+        window.dispatchEvent(new Event('online'));
+
+        await waitFor(() => expect(page.context().sentimentJournal).toMatchObject([{ text: 'Worried about interest rates' }]));
+        expect(page.context().sentimentJournal[0].queued).toBeUndefined();
+        expect(backend.requestsTo('/get-sentiment').at(-1)!.body).toEqual({ user_id: 'user-1', sentiment: 'worried about rates', score: 'neutral', tickers: [] });
+        expect(screen.queryByText('Waiting to send')).toBeNull();
+    });
+
+    it('keeps the entry in the form when it can be neither sent nor queued', async () => {
+        const user = userEvent.setup();
+        backend.disconnect('/get-sentiment');
+        const put = IDBObjectStore.prototype.put;
+        vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, ...args: Parameters<IDBObjectStore['put']>) {
+            if (this.name === 'outbox') throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            return put.apply(this, args);
+        });
+        const page = renderWithApp(<SentimentPage />);
+
+        await user.type(sentimentInput(), 'worried about rates');
+        await user.click(screen.getByRole('button', { name: 'Submit' }));
+
+        expect(await screen.findByText(/could not be saved on this device to send later/)).toBeTruthy();
+        expect(page.context().sentimentJournal).toEqual([]);
+        expect((sentimentInput() as HTMLInputElement).value).toBe('worried about rates');
+        expect(screen.queryByText('Waiting to send')).toBeNull();
+    });
+
+    it('sends a queued entry once even when two relays flush at the same time', async () => {
+        const user = userEvent.setup();
+        backend.disconnect('/get-sentiment');
+        const page = renderWithApp(<><SentimentPage /><SentimentOutboxRelay /><SentimentOutboxRelay /></>);
+
+        await user.type(sentimentInput(), 'worried about rates');
+        await user.click(screen.getByRole('button', { name: 'Submit' }));
+        await screen.findByText('Waiting to send');
+        const attempts = backend.requestsTo('/get-sentiment').length;
+
+        backend.respond('/get-sentiment', () => jsonResponse({ sentiment: 'Worried about interest rates' }));
+        window.dispatchEvent(new Event('online'));
+
+        await waitFor(() => expect(page.context().sentimentJournal).toMatchObject([{ text: 'Worried about interest rates' }]));
+        expect(backend.requestsTo('/get-sentiment')).toHaveLength(attempts + 1);
+    });
+});
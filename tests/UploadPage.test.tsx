@@ -0,0 +1,107 @@
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { UploadPage } from '../index';
+import { installFakeBackend } from './fakeBackend';
+import { renderWithApp } from './renderWithApp';
+
+const CSV = 'transaction_type,ticker,buy_date,quantity,price\nbuy,AAPL,2024-01-02,10,150\nsell,aapl,2024-03-01,4,"1,180.50"\n';
+
+let backend: ReturnType<typeof installFakeBackend>;
+beforeEach(() => {
+    backend = installFakeBackend();
+});
+
+// Picks the file and walks through column mapping to the review step.
+const reviewFile = async (csv: string) => {
+    const user = userEvent.setup();
+    const page = renderWithApp(<UploadPage />);
+    await user.upload(screen.getByLabelText('CSV File'), new File([csv], 'trades.csv', { type: 'text/csv' }));
+    await user.click(screen.getByRole('button', { name: 'Continue' }));
+    await user.click(await screen.findByRole('button', { name: 'Review Rows' }));
+    return { user, page };
+};
+
+describe('UploadPage', () => {
+    it('uploads the cleaned rows and opens the dashboard', async () => {
+        const { user, page } = await reviewFile(CSV);
+        expect(screen.getByText('0 with errors')).toBeTruthy();
+
+        await user.click(screen.getByRole('button', { name: 'Upload & Analyze' }));
+
+        expect(page.navigate).toHaveBeenCalledWith('/dashboard');
+        expect(page.context().transactions).toEqual([
+            { transaction_type: 'buy', ticker: 'AAPL', buy_date: '2024-01-02', quantity: 10, price: 150 },
+            { transaction_type: 'sell', ticker: 'AAPL', buy_date: '2024-03-01', quantity: 4, price: 1180.5 },
+        ]);
+        const [upload] = backend.requestsTo('/upload-transactions');
+        const file = (upload.body as FormData).get('file') as File;
+        expect(file.name).toBe('trades.csv');
+        expect(await file.text()).toBe(
+            'transaction_type,ticker,buy_date,quantity,price,lot_id,currency,exchange\nbuy,AAPL,2024-01-02,10,150,,,\nsell,AAPL,2024-03-01,4,1180.5,,,',
+        );
+    });
+
+    it('blocks the upload until invalid rows are fixed or dropped', async () => {
+        const { user } = await reviewFile('ticker,buy_date,quantity,price\nAAPL,2024-01-02,ten,150\nMSFT,2024-02-01,5,400\n');
+        expect(screen.getByText('Quantity "ten" is not a number')).toBeTruthy();
+        expect((screen.getByRole('button', { name: 'Upload & Analyze' }) as HTMLButtonElement).disabled).toBe(true);
+
+        await user.click(screen.getByRole('button', { name: 'Drop all invalid rows' }));
+
+        expect(screen.getByText('1 rows,', { exact: false })).toBeTruthy();
+        expect((screen.getByRole('button', { name: 'Upload & Analyze' }) as HTMLButtonElement).disabled).toBe(false);
+        expect(backend.requestsTo('/upload-transactions')).toHaveLength(0);
+    });
+
+    it('blocks malformed tickers and only warns about unknown ones', async () => {
+        const { user } = await reviewFile('ticker,buy_date,quantity,price\n12AB,2024-01-02,1,150\nZZZQ,2024-02-01,5,400\n');
+        expect(screen.getByText('Invalid ticker "12AB"')).toBeTruthy();
+        expect(screen.getByText('Unknown ticker "ZZZQ"; double-check the spelling')).toBeTruthy();
+
+        await user.click(screen.getByRole('button', { name: 'Drop all invalid rows' }));
+
+        expect(screen.getByText('0 with errors')).toBeTruthy();
+        expect((screen.getByRole('button', { name: 'Upload & Analyze' }) as HTMLButtonElement).disabled).toBe(false);
+    });
+
+    it('asks for the type of transfer rows instead of guessing', async () => {
+        await reviewFile('transaction_type,ticker,buy_date,quantity,price\nTransfer In,AAPL,2024-01-02,10,150\n');
+        expect(screen.getByText('Unknown transaction type "Transfer In"')).toBeTruthy();
+        expect((screen.getByRole('button', { name: 'Upload & Analyze' }) as HTMLButtonElement).disabled).toBe(true);
+    });
+
+    it('accepts numeric foreign listings that carry their market suffix', async () => {
+        await reviewFile('ticker,buy_date,quantity,price\n7203.T,2024-01-02,100,2500\n0700.HK,2024-02-01,50,300\n');
+        expect(screen.getByText('0 with errors')).toBeTruthy();
+        expect(screen.queryByText(/Invalid ticker/)).toBeNull();
+        expect((screen.getByRole('button', { name: 'Upload & Analyze' }) as HTMLButtonElement).disabled).toBe(false);
+    });
+
+    it('rejects a file without transaction rows before mapping', async () => {
+        const user = userEvent.setup();
+        renderWithApp(<UploadPage />);
+        await user.upload(screen.getByLabelText('CSV File'), new File(['ticker,buy_date,quantity,price\n'], 'empty.csv', { type: 'text/csv' }));
+        await user.click(screen.getByRole('button', { name: 'Continue' }));
+        expect(await screen.findByText('The selected file has no transaction rows.')).toBeTruthy();
+    });
+
+    it('shows the message of a rejected upload and keeps the portfolio unchanged', async () => {
+        backend.fail('/upload-transactions', 422, 'Unsupported CSV layout');
+        const { user, page } = await reviewFile(CSV);
+        await user.click(screen.getByRole('button', { name: 'Upload & Analyze' }));
+
+        expect(await screen.findByText('Unsupported CSV layout')).toBeTruthy();
+        expect(page.context().transactions).toBeNull();
+        expect(page.navigate).not.toHaveBeenCalled();
+    });
+
+    it('reports an unreachable server', async () => {
+        backend.disconnect('/upload-transactions');
+        const { user, page } = await reviewFile(CSV);
+        await user.click(screen.getByRole('button', { name: 'Upload & Analyze' }));
+
+        expect(await screen.findByText('Could not reach the server at http://andre.test.')).toBeTruthy();
+        expect(page.context().transactions).toBeNull();
+    });
+});
@@ -0,0 +1,80 @@
+import { vi } from 'vitest';
+import type { AnalyzeRequest, NewsHeadline, Recommendation, StockData } from '../index';
+
+export const API_BASE_URL = 'http://andre.test';
+
+export type FakeRequest = { method: string; path: string; query: URLSearchParams; body: unknown };
+type Handler = (request: FakeRequest) => Response | Promise<Response>;
+
+export const jsonResponse = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+
+export const stockFixture = (ticker: string): StockData => ({
+    ticker,
+    pe_ratio: 25,
+    eps: 4.2,
+    price_history: [
+        { date: '2024-05-01', close: 100 },
+        { date: '2024-05-02', close: 104 },
+    ],
+});
+
+export const headlineFixture = (ticker: string): NewsHeadline => ({
+    source: 'Fake Wire',
+    title: `${ticker} beats earnings estimates`,
+    link: `https://news.test/${ticker}`,
+});
+
+export const recommendationFixture = (ticker: string): Recommendation => ({
+    ticker,
+    recommendation: 'Hold',
+    confidence: 'Medium',
+    reasoning: `${ticker} looks fairly valued.`,
+});
+
+const requestedTickers = (request: FakeRequest) => (request.query.get('tickers') ?? '').split(',').filter(Boolean);
+
+const DEFAULT_HANDLERS: Record<string, Handler> = {
+    '/upload-transactions': () => jsonResponse({ message: 'Transactions uploaded', preview: [] }),
+    '/get-sentiment': request => jsonResponse({ sentiment: (request.body as { sentiment: string }).sentiment }),
+    '/get-stock-data': request => jsonResponse({ data: requestedTickers(request).map(stockFixture) }),
+    '/get-news': request => jsonResponse({ headlines: requestedTickers(request).map(headlineFixture) }),
+    '/analyze': request => jsonResponse({
+        recommendations: (request.body as AnalyzeRequest).current_metrics.map(metric => recommendationFixture(metric.ticker)),
+    }),
+};
+
+// Replaces fetch with an in-process version of the five API endpoints. Each endpoint answers with
+// fixture data until a test swaps in its own handler; every request is recorded.
+export const installFakeBackend = () => {
+    const handlers = { ...DEFAULT_HANDLERS };
+    const requests: FakeRequest[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+        const url = new URL(String(input));
+        const request: FakeRequest = {
+            method: init.method ?? 'GET',
+            path: url.pathname,
+            query: url.searchParams,
+            body: typeof init.body === 'string' ? JSON.parse(init.body) : init.body,
+        };
+        requests.push(request);
+        const handler = handlers[request.path];
+        return handler ? handler(request) : jsonResponse({ message: 'Not Found' }, 404);
+    }));
+    return {
+        requestsTo: (path: string) => requests.filter(request => request.path === path),
+        respond: (path: string, handler: Handler) => {
+            handlers[path] = handler;
+        },
+        // An error response in the backend's { message } format, e.g. a 422 for invalid input.
+        fail: (path: string, status: number, message: string) => {
+            handlers[path] = () => jsonResponse({ message }, status);
+        },
+        // An unreachable server, which fetch reports as a TypeError.
+        disconnect: (path: string) => {
+            handlers[path] = () => {
+                throw new TypeError('Failed to fetch');
+            };
+        },
+    };
+};
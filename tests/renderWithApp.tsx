@@ -0,0 +1,59 @@
+import { render } from '@testing-library/react';
+import { useState, type ReactElement } from 'react';
+import { vi } from 'vitest';
+import { AppContext, type AppContextType, type Transaction } from '../index';
+
+type PortfolioState = Pick<AppContextType, 'transactions' | 'sentimentJournal' | 'stockData' | 'news' | 'analysis' | 'lotMethod' | 'baseCurrency' | 'fetchedAt' | 'fx'>;
+
+export const TEST_USER = { id: 'user-1', email: 'tester@example.com', name: 'Tester' };
+
+export const TRANSACTIONS: Transaction[] = [
+    { ticker: 'AAPL', buy_date: '2024-01-02', quantity: 10, price: 150, transaction_type: 'buy' },
+    { ticker: 'MSFT', buy_date: '2024-02-01', quantity: 5, price: 400, transaction_type: 'buy' },
+];
+
+// Renders a page inside an AppContext whose portfolio data lives in React state, as it does in App,
+// so the page's updates re-render it. Each render gets its own portfolio id, keeping saved runs apart.
+export const renderWithApp = (ui: ReactElement, initial: Partial<PortfolioState> = {}) => {
+    const navigate = vi.fn();
+    const portfolioId = crypto.randomUUID();
+    let latest: AppContextType | null = null;
+
+    const Harness = () => {
+        const [transactions, setTransactions] = useState(initial.transactions ?? null);
+        const [sentimentJournal, setSentimentJournal] = useState(initial.sentimentJournal ?? []);
+        const [stockData, setStockData] = useState(initial.stockData ?? null);
+        const [news, setNews] = useState(initial.news ?? null);
+        const [analysis, setAnalysis] = useState(initial.analysis ?? null);
+        const [lotMethod, setLotMethod] = useState(initial.lotMethod ?? 'fifo');
+        const [baseCurrency, setBaseCurrency] = useState(initial.baseCurrency ?? 'USD');
+        latest = {
+            navigate,
+            user: TEST_USER,
+            login: vi.fn(),
+            signup: vi.fn(),
+            logout: vi.fn(),
+            portfolios: [{ id: portfolioId, name: 'Test Portfolio' }],
+            activePortfolioId: portfolioId,
+            switchPortfolio: vi.fn(),
+            createPortfolio: vi.fn(),
+            renamePortfolio: vi.fn(),
+            deletePortfolio: vi.fn(),
+            clearPortfolio: vi.fn(),
+            importSession: vi.fn(),
+            transactions, setTransactions,
+            sentimentJournal, setSentimentJournal,
+            stockData, setStockData,
+            news, setNews,
+            analysis, setAnalysis,
+            lotMethod, setLotMethod,
+            baseCurrency, setBaseCurrency,
+            fetchedAt: initial.fetchedAt ?? { stockData: null, news: null, analysis: null },
+            fx: initial.fx ?? { base: baseCurrency, rates: {} },
+            fxError: '',
+        };
+        return <AppContext.Provider value={latest}>{ui}</AppContext.Provider>;
+    };
+
+    return { ...render(<Harness />), navigate, context: () => latest! };
+};
@@ -0,0 +1,30 @@
+import 'fake-indexeddb/auto';
+import { cleanup, configure } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+import { API_BASE_URL } from './fakeBackend';
+
+// index.tsx reads this when it is imported: send requests to the fake backend and fail without backoff.
+window.ANDRE_CONFIG = { apiBaseUrl: API_BASE_URL, mockApi: false, timeoutMs: 2000, maxRetries: 0 };
+
+// The first render of a file imports and opens IndexedDB; on a loaded CI machine that can outlast the 1s default.
+configure({ asyncUtilTimeout: 3000 });
+
+// jsdom's Blob has no text(), which the upload page reads files with.
+if (!Blob.prototype.text) {
+    Blob.prototype.text = function (this: Blob) {
+        return new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(this);
+        });
+    };
+}
+
+// jsdom doesn't lay out or scroll; the chat card scrolls itself to the newest message.
+Element.prototype.scrollTo ??= () => {};
+
+afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+});
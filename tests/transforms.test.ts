@@ -0,0 +1,225 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ApiError, buildAnalyzePayload, diffRuns, fxRate, parseSessionExport, readAnalysisStream, selectSentimentWindow, toBaseCurrency } from '../index';
+import type { AnalysisRun, FxTable, SentimentEntry, Transaction } from '../index';
+import { recommendationFixture, stockFixture } from './fakeBackend';
+
+const entry = (createdAt: string, overrides: Partial<SentimentEntry> = {}): SentimentEntry => ({
+    id: createdAt,
+    createdAt,
+    text: 'Feeling good about tech',
+    score: 'bullish',
+    tickers: [],
+    ...overrides,
+});
+
+describe('buildAnalyzePayload', () => {
+    const transactions: Transaction[] = [
+        { ticker: 'AAPL', buy_date: '2024-01-02', quantity: 10, price: 150 },
+        { ticker: 'AAPL', buy_date: '2024-03-01', quantity: 5, price: 170, transaction_type: 'buy' },
+        { ticker: 'AAPL', buy_date: '2024-04-01', quantity: 12, price: 180, transaction_type: 'sell' },
+        { ticker: 'MSFT', buy_date: '2024-02-01', quantity: 2, price: 400, transaction_type: 'buy' },
+    ];
+    const payload = buildAnalyzePayload({
+        userId: 'user-1',
+        sentimentEntries: [entry('2024-05-02T10:00:00.000Z', { tickers: ['AAPL', 'MSFT'] }), entry('2024-05-01T10:00:00.000Z', { text: 'Nervous', score: 'bearish' })],
+        transactions,
+        stockData: [stockFixture('AAPL'), stockFixture('MSFT')],
+        news: [
+            { source: 'Wire', title: 'Apple and Microsoft lead tech rally', link: 'https://a', tickers: ['AAPL', 'MSFT'] },
+            { source: 'Other Wire', title: 'Apple and Microsoft lead tech rally', link: 'https://b', tickers: ['AAPL'] },
+            { source: 'Wire', title: 'Fed holds rates steady', link: 'https://c', tickers: [] },
+        ],
+        lotMethod: 'fifo',
+    });
+
+    it('sends the user and a dated text summary of the sentiment entries', () => {
+        expect(payload.user_id).toBe('user-1');
+        expect(payload.sentiment).toBe('[2024-05-02, bullish, AAPL/MSFT] Feeling good about tech\n[2024-05-01, bearish] Nervous');
+        expect(payload.sentiment_history).toEqual([
+            { date: '2024-05-02T10:00:00.000Z', text: 'Feeling good about tech', score: 'bullish', tickers: ['AAPL', 'MSFT'] },
+            { date: '2024-05-01T10:00:00.000Z', text: 'Nervous', score: 'bearish', tickers: [] },
+        ]);
+    });
+
+    it('labels every transaction with its date and type, defaulting to buy', () => {
+        expect(payload.transaction_history[0]).toEqual({ ...transactions[0], transaction_date: '2024-01-02', transaction_type: 'buy' });
+        expect(payload.transaction_history.map(t => t.transaction_type)).toEqual(['buy', 'buy', 'sell', 'buy']);
+    });
+
+    it('sends only the lots still open after sells', () => {
+        expect(payload.open_lots).toEqual([
+            { ticker: 'MSFT', open_date: '2024-02-01', quantity: 2, cost_per_share: 400, currency: 'USD' },
+            { ticker: 'AAPL', open_date: '2024-03-01', quantity: 3, cost_per_share: 170, currency: 'USD' },
+        ]);
+    });
+
+    it('maps metrics, sends one news summary per story and ticker and unmatched stories as market news', () => {
+        expect(payload.current_metrics).toEqual([
+            { ticker: 'AAPL', pe_ratio: 25, eps: 4.2, currency: 'USD' },
+            { ticker: 'MSFT', pe_ratio: 25, eps: 4.2, currency: 'USD' },
+        ]);
+        expect(payload.news_summaries).toEqual([
+            { ticker: 'AAPL', headline: 'Apple and Microsoft lead tech rally' },
+            { ticker: 'MSFT', headline: 'Apple and Microsoft lead tech rally' },
+        ]);
+        expect(payload.market_news).toEqual(['Fed holds rates steady']);
+    });
+
+    it('labels lot costs and metrics of foreign listings with their own currency', () => {
+        const foreign = buildAnalyzePayload({
+            userId: 'user-1',
+            sentimentEntries: [],
+            transactions: [{ ticker: '7203.T', buy_date: '2024-01-04', quantity: 100, price: 2500, currency: 'JPY' }],
+            stockData: [{ ...stockFixture('7203.T'), currency: 'JPY' }],
+            news: [],
+            lotMethod: 'fifo',
+        });
+        expect(foreign.open_lots).toEqual([{ ticker: '7203.T', open_date: '2024-01-04', quantity: 100, cost_per_share: 2500, currency: 'JPY' }]);
+        expect(foreign.current_metrics).toEqual([{ ticker: '7203.T', pe_ratio: 25, eps: 4.2, currency: 'JPY' }]);
+    });
+});
+
+describe('selectSentimentWindow', () => {
+    const journal = [entry('2024-05-30T00:00:00.000Z'), entry('2024-05-20T00:00:00.000Z'), entry('2024-04-01T00:00:00.000Z')];
+    const now = Date.parse('2024-05-31T00:00:00.000Z');
+
+    it('selects the latest entry, a number of days back or everything', () => {
+        expect(selectSentimentWindow(journal, 'latest', now)).toEqual(journal.slice(0, 1));
+        expect(selectSentimentWindow(journal, '7d', now)).toEqual(journal.slice(0, 1));
+        expect(selectSentimentWindow(journal, '30d', now)).toEqual(journal.slice(0, 2));
+        expect(selectSentimentWindow(journal, 'all', now)).toEqual(journal);
+    });
+});
+
+describe('readAnalysisStream', () => {
+    const streamed = (body: string, contentType: string) => new Response(body, { headers: { 'Content-Type': contentType } });
+    const [aapl, msft] = [recommendationFixture('AAPL'), recommendationFixture('MSFT')];
+
+    it('reports server-sent recommendations as they arrive', async () => {
+        const onRecommendation = vi.fn();
+        const body = `event: recommendation\ndata: ${JSON.stringify(aapl)}\n\n: keep-alive\n\nevent: recommendation\ndata: ${JSON.stringify(msft)}\n\nevent: done\ndata: {}\n\n`;
+        const result = await readAnalysisStream(streamed(body, 'text/event-stream'), onRecommendation);
+        expect(result.recommendations).toEqual([aapl, msft]);
+        expect(onRecommendation.mock.calls).toEqual([[aapl], [msft]]);
+    });
+
+    it('reads newline-delimited JSON and plain JSON responses', async () => {
+        const ndjson = await readAnalysisStream(streamed(`${JSON.stringify(aapl)}\n${JSON.stringify(msft)}`, 'application/x-ndjson'), () => {});
+        const json = await readAnalysisStream(streamed(JSON.stringify({ recommendations: [aapl, msft] }), 'application/json'), () => {});
+        expect(ndjson.recommendations).toEqual([aapl, msft]);
+        expect(json.recommendations).toEqual([aapl, msft]);
+    });
+
+    it('turns an error event into an ApiError after keeping what already arrived', async () => {
+        const onRecommendation = vi.fn();
+        const body = `event: recommendation\ndata: ${JSON.stringify(aapl)}\n\nevent: error\ndata: {"message":"Model overloaded"}\n\n`;
+        const reading = readAnalysisStream(streamed(body, 'text/event-stream'), onRecommendation);
+        await expect(reading).rejects.toThrow(ApiError);
+        await expect(reading).rejects.toThrow('Model overloaded');
+        expect(onRecommendation).toHaveBeenCalledWith(aapl);
+    });
+});
+
+describe('diffRuns', () => {
+    const run = (recommendations: AnalysisRun['recommendations']): AnalysisRun => ({
+        id: crypto.randomUUID(),
+        portfolioId: 'p',
+        createdAt: '2024-05-01T00:00:00.000Z',
+        sentimentWindow: '7d',
+        input: buildAnalyzePayload({ userId: 'u', sentimentEntries: [], transactions: [], stockData: [], news: [], lotMethod: 'fifo' }),
+        recommendations,
+    });
+
+    it('classifies each ticker and lists the most significant changes first', () => {
+        const base = run([recommendationFixture('AAPL'), recommendationFixture('MSFT'), recommendationFixture('NVDA')]);
+        const next = run([
+            { ...recommendationFixture('AAPL'), confidence: 'High' },
+            { ...recommendationFixture('MSFT'), recommendation: 'Sell' },
+            recommendationFixture('TSLA'),
+        ]);
+        expect(diffRuns(base, next).map(row => [row.ticker, row.change, row.confidenceDelta])).toEqual([
+            ['MSFT', 'flipped', 0],
+            ['AAPL', 'confidence', 1],
+            ['TSLA', 'added', 0],
+            ['NVDA', 'removed', 0],
+        ]);
+    });
+});
+
+describe('parseSessionExport', () => {
+    const dump = {
+        format: 'andre-session',
+        exportedAt: '2024-05-01T00:00:00.000Z',
+        portfolio: {
+            id: 'p',
+            name: 'Taxable',
+            schemaVersion: 1,
+            updatedAt: '2024-05-01T00:00:00.000Z',
+            data: { transactions: [{ ticker: 'AAPL', buy_date: '2024-01-02', quantity: 10, price: 150 }], sentiment: 'Calm', stockData: null, news: null, analysis: null, lotMethod: 'fifo' },
+        },
+        analysisRuns: [{
+            id: 'r', portfolioId: 'p', createdAt: '2024-05-01T00:00:00.000Z', sentimentWindow: '7d',
+            input: buildAnalyzePayload({ userId: 'u', sentimentEntries: [], transactions: [], stockData: [], news: [], lotMethod: 'fifo' }),
+            recommendations: [recommendationFixture('AAPL')],
+        }],
+        conversations: [],
+        scenario: [{ id: 's', ticker: 'MSFT', type: 'buy', quantity: 1, price: 400 }],
+    };
+
+    it('accepts an export from an older schema and migrates its portfolio', () => {
+        const parsed = parseSessionExport(JSON.stringify(dump));
+        expect(parsed.portfolio.data.sentimentJournal).toMatchObject([{ text: 'Calm', score: 'neutral' }]);
+        expect(parsed.analysisRuns).toEqual(dump.analysisRuns);
+        expect(parsed.scenario).toEqual(dump.scenario);
+    });
+
+    it('rejects malformed entries before anything is imported', () => {
+        const badRun = { ...dump, analysisRuns: [{ ...dump.analysisRuns[0], recommendations: [{ ticker: 'AAPL' }] }] };
+        expect(() => parseSessionExport(JSON.stringify(badRun))).toThrow('This session export has malformed analysis runs.');
+        const badTrade = { ...dump, scenario: [{ id: 's', ticker: 'MSFT', type: 'hold', quantity: 1, price: 400 }] };
+        expect(() => parseSessionExport(JSON.stringify(badTrade))).toThrow('This session export has malformed scenario trades.');
+        expect(() => parseSessionExport('{"format":"other"}')).toThrow('This file is not an Andre session export.');
+    });
+});
+
+describe('currency conversion', () => {
+    const fx: FxTable = {
+        base: 'USD',
+        rates: {
+            EUR: [
+                { date: '2024-01-02', rate: 1.1 },
+                { date: '2024-03-01', rate: 1.05 },
+                { date: '2024-05-02', rate: 1.2 },
+            ],
+        },
+    };
+
+    it('uses the rate on or before the date, and the latest rate without one', () => {
+        expect(fxRate(fx, 'EUR', '2024-03-01')).toBe(1.05);
+        expect(fxRate(fx, 'EUR', '2024-04-15')).toBe(1.05);
+        expect(fxRate(fx, 'EUR', '2023-12-29')).toBe(1.1);
+        expect(fxRate(fx, 'EUR')).toBe(1.2);
+        expect(fxRate(fx, 'USD', '2024-03-01')).toBe(1);
+        expect(fxRate(fx, 'GBP')).toBeNull();
+    });
+
+    it('converts trades at their trade-date rate and closes at the rate of their day', () => {
+        const transactions: Transaction[] = [
+            { ticker: 'SAP.DE', buy_date: '2024-03-01', quantity: 10, price: 100, currency: 'EUR', exchange: 'XETRA' },
+            { ticker: 'AAPL', buy_date: '2024-01-02', quantity: 5, price: 150 },
+            { ticker: 'SHEL.L', buy_date: '2024-01-02', quantity: 1, price: 25, currency: 'GBP' },
+        ];
+        const converted = toBaseCurrency(transactions, [{ ...stockFixture('SAP.DE'), currency: 'EUR' }, stockFixture('AAPL')], fx);
+        expect(converted.transactions).toEqual([
+            { ...transactions[0], price: 105, currency: 'USD' },
+            transactions[1],
+            transactions[2],
+        ]);
+        const [sap, aapl] = converted.stockData!;
+        expect(sap.currency).toBe('USD');
+        expect(sap.price_history[0].close).toBeCloseTo(105);
+        expect(sap.price_history[1].close).toBeCloseTo(124.8);
+        expect(aapl).toEqual(stockFixture('AAPL'));
+        expect(converted.missing).toEqual(['GBP']);
+    });
+});
@@ -1,9 +1,33 @@
+/// <reference types="vitest/config" />
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
+
+// Emits sw.js from the template in the project root, filling in every file the build produced (hashed bundles
+// and public/ alike) so one visit caches the whole app. The cache name follows the file list, so each deploy
+// replaces the previous cache.
+const serviceWorker = (): Plugin => ({
+    name: 'andre-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+        const publicFiles = fs.readdirSync(path.resolve(__dirname, 'public'));
+        const files = [...new Set(['index.html', ...Object.keys(bundle), ...publicFiles])].sort().map(file => `./${file}`);
+        const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+        const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+            .replace('__APP_SHELL__', JSON.stringify(['./', ...files]))
+            .replace('__CACHE_NAME__', JSON.stringify(`andre-${version}`));
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Relative asset URLs, so the build works from a GitHub Pages project path.
+      base: './',
+      plugins: [serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -12,6 +36,11 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./tests/setup.ts'],
+        include: ['tests/**/*.test.{ts,tsx}'],
       }
     };
 });